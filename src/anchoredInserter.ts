@@ -0,0 +1,68 @@
+import * as vscode from "vscode";
+
+import { log } from "./logger";
+
+// Appends text piece by piece at a fixed point in a document, following edits made around it
+export class AnchoredInserter implements vscode.Disposable {
+  private anchorOffset: number;
+  private readonly changeListener: vscode.Disposable;
+  private insertedText = "";
+  private undeliveredText = "";
+
+  constructor(readonly document: vscode.TextDocument, position: vscode.Position) {
+    this.anchorOffset = document.offsetAt(position);
+
+    // Keep the insertion point stable while the user (or we) edit the document above it
+    this.changeListener = vscode.workspace.onDidChangeTextDocument((event) => {
+      if (event.document !== this.document) {
+        return;
+      }
+      for (const change of event.contentChanges) {
+        if (change.rangeOffset + change.rangeLength <= this.anchorOffset) {
+          this.anchorOffset += change.text.length - change.rangeLength;
+        }
+      }
+    });
+  }
+
+  // Current insertion point, undefined once the document is closed
+  get position(): vscode.Position | undefined {
+    return this.document.isClosed ? undefined : this.document.positionAt(this.anchorOffset);
+  }
+
+  // Everything dictated so far, inserted or not
+  get text(): string {
+    return this.insertedText + this.undeliveredText;
+  }
+
+  async insert(text: string) {
+    const previous = this.text;
+    const separator = previous && !/\s$/.test(previous) ? " " : "";
+
+    if (this.document.isClosed) {
+      this.undeliveredText += separator + text;
+      return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(this.document.uri, this.document.positionAt(this.anchorOffset), separator + text);
+    if (await vscode.workspace.applyEdit(edit)) {
+      this.insertedText += separator + text;
+    } else {
+      log("Anchored insertion edit was rejected", true);
+      this.undeliveredText += separator + text;
+    }
+  }
+
+  // Hand text that could not be inserted to the user through the clipboard
+  async deliverRemaining() {
+    if (this.undeliveredText) {
+      await vscode.env.clipboard.writeText(this.undeliveredText);
+      vscode.window.showInformationMessage("The dictation target was closed - remaining text copied to clipboard");
+    }
+  }
+
+  dispose() {
+    this.changeListener.dispose();
+  }
+}
@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+
+// Public API returned from activate, for extensions that reuse the recording and transcription pipeline:
+//
+//   const api = await vscode.extensions.getExtension<WhisperDictationApi>("local-publisher.whisperdictation")?.activate();
+//   api?.onDidTranscribe((event) => console.log(event.text));
+//
+// Only types live here, so other extensions can copy this file as is.
+
+// What produced a transcript
+export type TranscriptionSource = "dictation" | "capture" | "file";
+
+// How a dictation started with whisperdictation.startDictation delivers its text
+export type DictationModeOption = "insert" | "clipboard" | "live" | "realtime" | "translate";
+
+// Where an inserted dictation goes, as for whisperdictation.dictateTo
+export type DictationTargetOption = "editor" | "terminal" | "scm" | "untitled" | { target: string; pressEnter?: boolean };
+
+export interface TranscriptionEvent {
+  // The final text: inserted for dictations, as transcribed for captures and files
+  text: string;
+  source: TranscriptionSource;
+  backend: string;
+  model: string;
+  // Language code that was requested or detected, if known
+  language?: string;
+  // Audio length, if known
+  durationSeconds?: number;
+  // File transcriptions only
+  uri?: vscode.Uri;
+  timestamp: number;
+}
+
+export interface TranscriptionOptions {
+  // Overrides whisperdictation.transcriptionModel
+  model?: string;
+  // Language code, "" for automatic detection; defaults to the dictation language of the active editor
+  language?: string;
+}
+
+export interface TranscribeFileOptions extends TranscriptionOptions {
+  token?: vscode.CancellationToken;
+}
+
+// Arguments of the whisperdictation.startDictation command
+export interface DictationOptions extends TranscriptionOptions {
+  mode?: DictationModeOption;
+  target?: DictationTargetOption;
+}
+
+export interface WhisperDictationApi {
+  // Transcribe an audio file and resolve with its text
+  transcribeFile(uri: vscode.Uri, options?: TranscribeFileOptions): Promise<string>;
+  // Record from the microphone without inserting anything; fails while another dictation is running
+  startCapture(options?: TranscriptionOptions): Promise<void>;
+  // Stop the capture and resolve with its transcript
+  stopCapture(): Promise<string>;
+  // Fired for every finished dictation, capture and file transcription
+  readonly onDidTranscribe: vscode.Event<TranscriptionEvent>;
+}
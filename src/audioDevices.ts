@@ -0,0 +1,194 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import { execFile } from "child_process";
+
+import { log } from "./logger";
+
+const ENUMERATION_TIMEOUT_MS = 5000;
+
+// Devices found by the last enumeration, to name the selected one without enumerating again
+let cachedDevices: AudioDevice[] | undefined;
+
+// A capture device that SoX can record from
+export interface AudioDevice {
+  // Stable identifier saved in whisperdictation.inputDevice
+  id: string;
+  name: string;
+  // SoX input type (-t) and device argument
+  soxType: string;
+  soxDevice: string;
+  isDefault?: boolean;
+}
+
+// Input type and device passed to SoX when no device is selected
+export function getDefaultInput(): { soxType: string; soxDevice: string } {
+  switch (os.platform()) {
+    case "win32":
+      return { soxType: "waveaudio", soxDevice: "default" };
+    case "darwin":
+      return { soxType: "coreaudio", soxDevice: "default" };
+    default:
+      // On Linux, use alsa which is the standard audio driver
+      return { soxType: "alsa", soxDevice: "default" };
+  }
+}
+
+function runCommand(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { timeout: ENUMERATION_TIMEOUT_MS, windowsHide: true }, (error, stdout) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+// PulseAudio and PipeWire sources, without the monitors of output devices
+async function listPulseSources(): Promise<AudioDevice[]> {
+  const [output, defaultSource] = await Promise.all([
+    runCommand("pactl", ["list", "sources"]),
+    runCommand("pactl", ["get-default-source"]).catch(() => ""),
+  ]);
+
+  const devices: AudioDevice[] = [];
+  for (const block of output.split(/^Source #/m).slice(1)) {
+    const name = /^\s*Name:\s*(.+)$/m.exec(block)?.[1].trim();
+    const description = /^\s*Description:\s*(.+)$/m.exec(block)?.[1].trim();
+    if (!name || name.endsWith(".monitor")) {
+      continue;
+    }
+    devices.push({
+      id: `pulse:${name}`,
+      name: description || name,
+      soxType: "pulseaudio",
+      soxDevice: name,
+      isDefault: name === defaultSource.trim(),
+    });
+  }
+  return devices;
+}
+
+// ALSA capture devices, addressed by card name so they survive reordering
+async function listAlsaDevices(): Promise<AudioDevice[]> {
+  const output = await runCommand("arecord", ["-l"]);
+  const devices: AudioDevice[] = [];
+  const pattern = /^card \d+: (\S+) \[(.+?)\], device (\d+): .*?\[(.+?)\]/gm;
+  for (const match of output.matchAll(pattern)) {
+    const [, card, cardName, device, deviceName] = match;
+    const soxDevice = `plughw:CARD=${card},DEV=${device}`;
+    devices.push({
+      id: `alsa:${soxDevice}`,
+      name: cardName === deviceName ? cardName : `${cardName} - ${deviceName}`,
+      soxType: "alsa",
+      soxDevice,
+    });
+  }
+  return devices;
+}
+
+// CoreAudio devices with at least one input channel; SoX accepts the device name
+async function listCoreAudioDevices(): Promise<AudioDevice[]> {
+  const output = await runCommand("system_profiler", ["SPAudioDataType", "-json"]);
+  const items: Record<string, unknown>[] = JSON.parse(output).SPAudioDataType?.[0]?._items ?? [];
+  return items
+    .filter((item) => Number(item.coreaudio_device_input ?? 0) > 0)
+    .map((item) => ({
+      id: `coreaudio:${item._name}`,
+      name: String(item._name),
+      soxType: "coreaudio",
+      soxDevice: String(item._name),
+      isDefault: item.coreaudio_default_audio_input_device === "spaudio_yes",
+    }));
+}
+
+// waveIn devices from winmm; SoX accepts the device number
+const WAVE_IN_SCRIPT = [
+  "Add-Type -TypeDefinition 'using System;using System.Runtime.InteropServices;public class WaveIn{",
+  "[StructLayout(LayoutKind.Sequential,CharSet=CharSet.Auto)]public struct Caps{public short wMid;public short wPid;public int vDriverVersion;",
+  "[MarshalAs(UnmanagedType.ByValTStr,SizeConst=32)]public string szPname;public int dwFormats;public short wChannels;public short wReserved1;}",
+  '[DllImport("winmm.dll",CharSet=CharSet.Auto)]public static extern int waveInGetNumDevs();',
+  '[DllImport("winmm.dll",CharSet=CharSet.Auto)]public static extern int waveInGetDevCaps(IntPtr id,ref Caps caps,int size);}\';',
+  "for($i=0;$i -lt [WaveIn]::waveInGetNumDevs();$i++){$c=New-Object WaveIn+Caps;",
+  '[void][WaveIn]::waveInGetDevCaps([IntPtr]$i,[ref]$c,[Runtime.InteropServices.Marshal]::SizeOf($c));"$i`t$($c.szPname)"}',
+].join("");
+
+async function listWaveInDevices(): Promise<AudioDevice[]> {
+  const output = await runCommand("powershell", ["-NoProfile", "-NonInteractive", "-Command", WAVE_IN_SCRIPT]);
+  return output
+    .split(/\r?\n/)
+    .map((line) => line.split("\t"))
+    .filter((parts) => parts.length === 2 && parts[1].trim())
+    .map(([index, name]) => ({
+      // waveIn names are truncated to 31 characters but stable, unlike the index
+      id: `waveaudio:${name.trim()}`,
+      name: name.trim(),
+      soxType: "waveaudio",
+      soxDevice: index.trim(),
+    }));
+}
+
+// Enumerate capture devices for this platform and remember them
+export async function listAudioDevices(): Promise<AudioDevice[]> {
+  cachedDevices = await enumerateDevices();
+  return cachedDevices;
+}
+
+async function enumerateDevices(): Promise<AudioDevice[]> {
+  const platform = os.platform();
+  try {
+    if (platform === "win32") {
+      return await listWaveInDevices();
+    }
+    if (platform === "darwin") {
+      return await listCoreAudioDevices();
+    }
+
+    // Prefer PulseAudio/PipeWire names and add raw ALSA cards; either tool may be missing
+    const [pulse, alsa] = await Promise.all([
+      listPulseSources().catch((error) => {
+        log(`Could not list PulseAudio sources: ${error}`);
+        return [];
+      }),
+      listAlsaDevices().catch((error) => {
+        log(`Could not list ALSA devices: ${error}`);
+        return [];
+      }),
+    ]);
+    return [...pulse, ...alsa];
+  } catch (error) {
+    log(`Could not list audio devices: ${error}`, true);
+    return [];
+  }
+}
+
+// Resolve the selected device, falling back to the default when it is no longer available
+export async function resolveInputDevice(): Promise<{ soxType: string; soxDevice: string }> {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const selected = (config.get<string>("inputDevice") ?? "").trim();
+  if (!selected) {
+    return getDefaultInput();
+  }
+
+  // Always enumerate: a cached device may have been unplugged since
+  const device = (await listAudioDevices()).find((candidate) => candidate.id === selected);
+  if (!device) {
+    log(`Selected microphone ${selected} not found, recording from the default device`, true);
+    vscode.window.showWarningMessage(`Microphone "${selected.replace(/^\w+:/, "")}" is not available. Recording from the default microphone.`);
+    return getDefaultInput();
+  }
+
+  log(`Recording from ${device.name} (${device.soxType} ${device.soxDevice})`);
+  return device;
+}
+
+// Name of the selected microphone for display, without enumerating the devices
+export function describeInputDevice(): string {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const selected = (config.get<string>("inputDevice") ?? "").trim();
+  if (!selected) {
+    return "system default microphone";
+  }
+  return cachedDevices?.find((device) => device.id === selected)?.name ?? selected.replace(/^\w+:/, "");
+}
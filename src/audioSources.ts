@@ -0,0 +1,220 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess, spawn } from "child_process";
+import { Writable } from "stream";
+
+import { resolveInputDevice } from "./audioDevices";
+import { log } from "./logger";
+import { PCM_BITS_PER_SAMPLE, PCM_BYTES_PER_SECOND, PCM_CHANNELS, PCM_SAMPLE_RATE } from "./pcm";
+import { convertToWav } from "./sox";
+
+export enum AudioSourceKind {
+  Microphone = "microphone",
+  // A saved recording streamed as if it were spoken now
+  File = "file",
+  // Raw PCM from a named pipe or the output of a command
+  Pipe = "pipe",
+}
+
+// Where SoX reads the dictation audio from
+export interface AudioSource extends vscode.Disposable {
+  readonly kind: AudioSourceKind;
+  readonly description: string;
+  // SoX format options and input, placed before the output arguments
+  prepare(): Promise<string[]>;
+  // Called once SoX runs, with its stdin for sources that feed it
+  start(stdin: Writable): void;
+}
+
+const WAV_HEADER_BYTES = 44;
+// Replayed audio is written in chunks this long, at the pace it was recorded
+const REPLAY_INTERVAL_MS = 100;
+
+// SoX format options of the raw PCM that file and pipe sources deliver
+const RAW_INPUT_ARGS = [
+  "-t",
+  "raw",
+  "-r",
+  String(PCM_SAMPLE_RATE),
+  "-b",
+  String(PCM_BITS_PER_SAMPLE),
+  "-e",
+  "signed-integer",
+  "-c",
+  String(PCM_CHANNELS),
+];
+
+export function getAudioSourceKind(): AudioSourceKind {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const kind = config.get<string>("audioSource") as AudioSourceKind;
+  return Object.values(AudioSourceKind).includes(kind) ? kind : AudioSourceKind.Microphone;
+}
+
+// Relative paths in the settings are resolved against the first workspace folder
+function resolveSettingPath(value: string): string {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  return path.isAbsolute(value) || !folder ? value : path.join(folder.uri.fsPath, value);
+}
+
+// The live microphone selected in whisperdictation.inputDevice
+class MicrophoneSource implements AudioSource {
+  readonly kind = AudioSourceKind.Microphone;
+  private device: string | undefined;
+
+  get description(): string {
+    return this.device ? `microphone ${this.device}` : "microphone";
+  }
+
+  async prepare(): Promise<string[]> {
+    const input = await resolveInputDevice();
+    this.device = input.soxDevice;
+    return [
+      "-c",
+      "1", // Mono channel
+      "-r",
+      "16000", // 16kHz sample rate (Whisper requirement)
+      "-b",
+      "16", // 16-bit depth
+      "-e",
+      "signed-integer",
+      // Platform-specific input type and the selected device
+      "-t",
+      input.soxType,
+      input.soxDevice,
+    ];
+  }
+
+  start() {
+    // SoX reads the device itself
+  }
+
+  dispose() {
+    // Nothing to release
+  }
+}
+
+// A saved recording, e.g. from the debug directory, converted to PCM and fed to SoX in real time
+class FileReplaySource implements AudioSource {
+  readonly kind = AudioSourceKind.File;
+  private workDir: string | undefined;
+  private pcm = Buffer.alloc(0);
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly filePath: string) {}
+
+  get description(): string {
+    return `replay of ${path.basename(this.filePath)}`;
+  }
+
+  async prepare(): Promise<string[]> {
+    if (!fs.existsSync(this.filePath)) {
+      throw new Error(`Recording to replay not found: ${this.filePath}`);
+    }
+    this.workDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisperdictation-replay-"));
+    const wavPath = await convertToWav(this.filePath, path.join(this.workDir, "replay.wav"));
+    this.pcm = fs.readFileSync(wavPath).subarray(WAV_HEADER_BYTES);
+    log(`Replaying ${(this.pcm.length / PCM_BYTES_PER_SECOND).toFixed(1)}s of audio from ${this.filePath}`);
+    return [...RAW_INPUT_ARGS, "-"];
+  }
+
+  start(stdin: Writable) {
+    const chunkBytes = Math.round((PCM_BYTES_PER_SECOND * REPLAY_INTERVAL_MS) / 1000) & ~1;
+    let offset = 0;
+    // SoX closes its stdin when the recording is stopped before the end of the file
+    stdin.on("error", (error) => log(`Replay stopped: ${error.message}`));
+
+    this.timer = setInterval(() => {
+      if (offset >= this.pcm.length) {
+        this.stopTimer();
+        stdin.end();
+        return;
+      }
+      stdin.write(this.pcm.subarray(offset, offset + chunkBytes));
+      offset += chunkBytes;
+    }, REPLAY_INTERVAL_MS);
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  dispose() {
+    this.stopTimer();
+    if (this.workDir) {
+      fs.rmSync(this.workDir, { recursive: true, force: true });
+      this.workDir = undefined;
+    }
+  }
+}
+
+// Raw 16 kHz mono 16-bit PCM from a named pipe SoX opens, or from the stdout of a command piped into SoX's stdin
+class PipeSource implements AudioSource {
+  readonly kind = AudioSourceKind.Pipe;
+  private producer: ChildProcess | undefined;
+
+  constructor(private readonly pipePath: string, private readonly command: string) {}
+
+  get description(): string {
+    return this.command ? `output of "${this.command}"` : `pipe ${this.pipePath}`;
+  }
+
+  async prepare(): Promise<string[]> {
+    if (this.command) {
+      return [...RAW_INPUT_ARGS, "-"];
+    }
+    if (!this.pipePath) {
+      throw new Error("Set whisperdictation.pipe.path or whisperdictation.pipe.command to record from a pipe.");
+    }
+    return [...RAW_INPUT_ARGS, this.pipePath];
+  }
+
+  start(stdin: Writable) {
+    if (!this.command) {
+      return;
+    }
+    const producer = spawn(this.command, { shell: true, windowsHide: true });
+    producer.stdout.pipe(stdin);
+    producer.stderr.on("data", (data) => log(`Pipe command stderr: ${data}`));
+    producer.on("error", (error) => log(`Pipe command error: ${error}`, true));
+    producer.on("close", (code) => log(`Pipe command exited with code ${code}`));
+    stdin.on("error", (error) => log(`Pipe stopped: ${error.message}`));
+    this.producer = producer;
+  }
+
+  dispose() {
+    if (this.producer && this.producer.exitCode === null) {
+      this.producer.kill();
+    }
+    this.producer = undefined;
+  }
+}
+
+// The source selected in whisperdictation.audioSource, or a replay of the given file
+export function createAudioSource(replayFile?: string): AudioSource {
+  if (replayFile) {
+    return new FileReplaySource(replayFile);
+  }
+
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  switch (getAudioSourceKind()) {
+    case AudioSourceKind.File: {
+      const file = (config.get<string>("replay.file") ?? "").trim();
+      if (!file) {
+        throw new Error("Set whisperdictation.replay.file to the recording to replay.");
+      }
+      return new FileReplaySource(resolveSettingPath(file));
+    }
+    case AudioSourceKind.Pipe: {
+      const pipePath = (config.get<string>("pipe.path") ?? "").trim();
+      return new PipeSource(pipePath && resolveSettingPath(pipePath), (config.get<string>("pipe.command") ?? "").trim());
+    }
+    case AudioSourceKind.Microphone:
+    default:
+      return new MicrophoneSource();
+  }
+}
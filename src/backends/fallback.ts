@@ -0,0 +1,51 @@
+import { log } from "../logger";
+import { TimedText, TranscriptionBackend, TranscriptionRequest } from "./types";
+
+function isAbort(error: unknown, request: TranscriptionRequest): boolean {
+  return request.signal?.aborted === true || (error instanceof Error && error.name === "AbortError");
+}
+
+// A backend that repeats a failed request with a second backend, e.g. another provider profile.
+// The fallback is created on first use; when it is unavailable the original error is thrown.
+export function withFallback(
+  primary: TranscriptionBackend,
+  createFallback: () => Promise<TranscriptionBackend | undefined>
+): TranscriptionBackend {
+  let fallback: Promise<TranscriptionBackend | undefined> | undefined;
+
+  const run = async <T>(request: TranscriptionRequest, attempt: (backend: TranscriptionBackend) => Promise<T> | undefined): Promise<T> => {
+    try {
+      const result = attempt(primary);
+      if (!result) {
+        throw new Error(`${primary.displayName} does not support this request`);
+      }
+      return await result;
+    } catch (error) {
+      if (isAbort(error, request)) {
+        throw error;
+      }
+      fallback ??= createFallback();
+      const backend = await fallback;
+      const result = backend ? attempt(backend) : undefined;
+      if (!backend || !result) {
+        throw error;
+      }
+      log(`${primary.displayName} failed (${error}), retrying with ${backend.displayName}`, true);
+      return result;
+    }
+  };
+
+  return {
+    id: primary.id,
+    displayName: primary.displayName,
+    model: primary.model,
+    maxFileSizeBytes: primary.maxFileSizeBytes,
+    acceptsCompressedAudio: primary.acceptsCompressedAudio,
+    supportsTranslation: primary.supportsTranslation,
+    supportsTimestamps: primary.supportsTimestamps,
+    transcribe: (request) => run(request, (backend) => backend.transcribe(request)),
+    translate: primary.translate && ((request) => run(request, (backend) => backend.translate?.(request))),
+    transcribeTimed:
+      primary.transcribeTimed && ((request): Promise<TimedText[]> => run(request, (backend) => backend.transcribeTimed?.(request))),
+  };
+}
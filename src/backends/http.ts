@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as http from "http";
+import * as https from "https";
+import { randomBytes } from "crypto";
+
+import { log } from "../logger";
+import { BackendId, HttpStatusError, TranscriptionBackend, TranscriptionRequest } from "./types";
+
+export interface HttpBackendOptions {
+  url: string;
+  model: string;
+  headers: Record<string, string>;
+}
+
+// Transcription through a self-hosted server that accepts OpenAI-style multipart uploads
+// (faster-whisper-server, whisper.cpp server, LocalAI, ...)
+export class HttpBackend implements TranscriptionBackend {
+  readonly id = BackendId.Http;
+  readonly displayName = "HTTP";
+  readonly maxFileSizeBytes = undefined;
+  readonly acceptsCompressedAudio = true;
+  readonly model: string;
+
+  constructor(private readonly options: HttpBackendOptions) {
+    this.model = options.model;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    if (!this.options.url) {
+      throw new Error("No transcription server configured. Set whisperdictation.http.url in the settings.");
+    }
+
+    const fields: Record<string, string> = { response_format: "json" };
+    if (this.options.model) {
+      fields.model = this.options.model;
+    }
+    if (request.language) {
+      fields.language = request.language;
+    }
+    if (request.prompt) {
+      fields.prompt = request.prompt;
+    }
+
+    log(`Starting transcription request to ${this.options.url}...`);
+    const response = await postMultipart(this.options.url, fields, request.filePath, this.options.headers, request.signal);
+    log("Transcription received from HTTP backend");
+
+    const { text, language } = parseTranscriptionResponse(response.body, response.contentType);
+    if (language && !request.language) {
+      request.onDetectedLanguage?.(language);
+    }
+    return text;
+  }
+}
+
+interface HttpResponse {
+  body: string;
+  contentType: string;
+}
+
+// Servers differ in whether they honour response_format, so accept both JSON and plain text.
+// Some servers also report the detected language in their JSON response.
+function parseTranscriptionResponse(body: string, contentType: string): { text: string; language?: string } {
+  if (contentType.includes("application/json")) {
+    const parsed = JSON.parse(body);
+    if (typeof parsed.text !== "string") {
+      throw new Error("Transcription server response did not contain a text field");
+    }
+    return { text: parsed.text.trim(), language: typeof parsed.language === "string" ? parsed.language : undefined };
+  }
+  return { text: body.trim() };
+}
+
+function postMultipart(
+  url: string,
+  fields: Record<string, string>,
+  filePath: string,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<HttpResponse> {
+  const boundary = `----WhisperDictation${randomBytes(12).toString("hex")}`;
+  const parts: Buffer[] = [];
+
+  for (const [name, value] of Object.entries(fields)) {
+    parts.push(Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+  }
+
+  parts.push(
+    Buffer.from(
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${path.basename(filePath)}"\r\n` +
+        `Content-Type: application/octet-stream\r\n\r\n`
+    ),
+    fs.readFileSync(filePath),
+    Buffer.from(`\r\n--${boundary}--\r\n`)
+  );
+
+  const body = Buffer.concat(parts);
+  const target = new URL(url);
+  const transport = target.protocol === "https:" ? https : http;
+
+  return new Promise<HttpResponse>((resolve, reject) => {
+    const req = transport.request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Type": `multipart/form-data; boundary=${boundary}`,
+          "Content-Length": body.length,
+        },
+        signal,
+      },
+      (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (chunk: Buffer) => chunks.push(chunk));
+        res.on("end", () => {
+          const text = Buffer.concat(chunks).toString("utf8");
+          const status = res.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            log(`Transcription server returned ${status}: ${text}`, true);
+            const retryAfter = res.headers["retry-after"];
+            reject(new HttpStatusError(status, Array.isArray(retryAfter) ? retryAfter[0] : retryAfter));
+            return;
+          }
+          resolve({ body: text, contentType: String(res.headers["content-type"] ?? "") });
+        });
+        res.on("error", reject);
+      }
+    );
+
+    req.on("error", reject);
+    req.end(body);
+  });
+}
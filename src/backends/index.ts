@@ -0,0 +1,46 @@
+import * as vscode from "vscode";
+import * as os from "os";
+import OpenAI from "openai";
+
+import { HttpBackend } from "./http";
+import { LocalBackend, LocalEngine } from "./local";
+import { OpenAIBackend } from "./openai";
+import { BackendId, TranscriptionBackend } from "./types";
+
+export { withFallback } from "./fallback";
+export { BackendId, HttpStatusError, TimedText, TranscriptionBackend, TranscriptionRequest } from "./types";
+
+// Read the selected backend from the settings
+export function getConfiguredBackendId(): BackendId {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const value = config.get<string>("backend") || BackendId.OpenAI;
+  return Object.values(BackendId).includes(value as BackendId) ? (value as BackendId) : BackendId.OpenAI;
+}
+
+// Create the configured backend. The OpenAI client is only required when the OpenAI backend is selected.
+// A model overrides the configured one, e.g. to re-transcribe a recording with a different model.
+export function createBackend(id: BackendId, openaiClient?: OpenAI, model?: string): TranscriptionBackend {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+
+  switch (id) {
+    case BackendId.Local:
+      return new LocalBackend({
+        engine: config.get<LocalEngine>("local.engine") || LocalEngine.WhisperCpp,
+        binaryPath: (config.get<string>("local.binaryPath") ?? "").trim(),
+        model: model ?? (config.get<string>("local.model") ?? "").trim(),
+        threads: config.get<number>("local.threads") || Math.max(1, Math.min(os.cpus().length, 8)),
+      });
+    case BackendId.Http:
+      return new HttpBackend({
+        url: (config.get<string>("http.url") ?? "").trim(),
+        model: model ?? (config.get<string>("http.model") ?? "").trim(),
+        headers: config.get<Record<string, string>>("http.headers") ?? {},
+      });
+    case BackendId.OpenAI:
+    default:
+      if (!openaiClient) {
+        throw new Error("OpenAI client is not initialized");
+      }
+      return new OpenAIBackend(openaiClient, model ?? (config.get<string>("transcriptionModel") || "gpt-4o-mini-transcribe"));
+  }
+}
@@ -0,0 +1,183 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+import { spawn } from "child_process";
+
+import { log } from "../logger";
+import { BackendId, TranscriptionBackend, TranscriptionRequest } from "./types";
+
+// Supported command-line engines
+export enum LocalEngine {
+  WhisperCpp = "whisper.cpp",
+  FasterWhisper = "faster-whisper",
+}
+
+// Options of both engines that take the prompt
+const PROMPT_FLAGS = ["--prompt", "--initial_prompt"];
+
+export interface LocalBackendOptions {
+  engine: LocalEngine;
+  binaryPath: string;
+  model: string;
+  threads: number;
+}
+
+// Transcription by running whisper.cpp or faster-whisper as a child process on the CPU
+export class LocalBackend implements TranscriptionBackend {
+  readonly id = BackendId.Local;
+  readonly displayName: string;
+  readonly maxFileSizeBytes = undefined;
+  // whisper.cpp only reads 16kHz WAV, so always hand over the original recording
+  readonly acceptsCompressedAudio = false;
+  readonly model: string;
+
+  constructor(private readonly options: LocalBackendOptions) {
+    this.displayName = `Local (${options.engine})`;
+    this.model = options.model;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    if (!this.options.model) {
+      throw new Error("No local model configured. Set whisperdictation.local.model in the settings.");
+    }
+
+    if (this.options.engine === LocalEngine.WhisperCpp) {
+      return this.transcribeWithWhisperCpp(request);
+    }
+    return this.transcribeWithFasterWhisper(request);
+  }
+
+  private async transcribeWithWhisperCpp(request: TranscriptionRequest): Promise<string> {
+    if (!fs.existsSync(this.options.model)) {
+      throw new Error(`whisper.cpp model file not found: ${this.options.model}`);
+    }
+
+    const args = [
+      "-m",
+      this.options.model,
+      "-f",
+      request.filePath,
+      "-t",
+      String(this.options.threads),
+      "-l",
+      request.language || "auto",
+      // Plain text on stdout: no timestamps, no progress output
+      "-nt",
+      "-np",
+    ];
+
+    if (request.prompt) {
+      args.push("--prompt", request.prompt);
+    }
+
+    const output = await runEngine(this.options.binaryPath || "whisper-cli", args, request.signal);
+    return joinTranscriptLines(output);
+  }
+
+  private async transcribeWithFasterWhisper(request: TranscriptionRequest): Promise<string> {
+    // whisper-ctranslate2 writes its result files into an output directory
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisperdictation-"));
+
+    try {
+      const args = [
+        request.filePath,
+        "--model",
+        this.options.model,
+        "--device",
+        "cpu",
+        "--compute_type",
+        "int8",
+        "--threads",
+        String(this.options.threads),
+        "--output_format",
+        "txt",
+        "--output_dir",
+        outputDir,
+        "--verbose",
+        "False",
+      ];
+
+      if (request.language) {
+        args.push("--language", request.language);
+      }
+
+      if (request.prompt) {
+        args.push("--initial_prompt", request.prompt);
+      }
+
+      await runEngine(this.options.binaryPath || "whisper-ctranslate2", args, request.signal);
+
+      const outputFile = path.join(outputDir, `${path.parse(request.filePath).name}.txt`);
+      if (!fs.existsSync(outputFile)) {
+        throw new Error("faster-whisper did not produce a transcript");
+      }
+      return joinTranscriptLines(fs.readFileSync(outputFile, "utf8"));
+    } finally {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Collapse the engine's per-segment lines into a single paragraph
+function joinTranscriptLines(output: string): string {
+  return output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join(" ");
+}
+
+// The prompt can contain vocabulary from the user's documents, so it is left out of the log
+function redactPrompt(args: string[]): string[] {
+  return args.map((arg, index) => (PROMPT_FLAGS.includes(args[index - 1]) ? "<prompt>" : arg));
+}
+
+// Run an engine binary and resolve with its stdout, killing it if the signal aborts
+function runEngine(binaryPath: string, args: string[], signal?: AbortSignal): Promise<string> {
+  log(`Running local engine: ${binaryPath} ${redactPrompt(args).join(" ")}`);
+  const startTime = Date.now();
+
+  return new Promise<string>((resolve, reject) => {
+    const engineProcess = spawn(binaryPath, args);
+    let stdout = "";
+    let stderr = "";
+
+    const onAbort = () => {
+      engineProcess.kill();
+      const error = new Error("Local transcription aborted");
+      error.name = "AbortError";
+      reject(error);
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    engineProcess.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+
+    engineProcess.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    engineProcess.on("error", (error) => {
+      signal?.removeEventListener("abort", onAbort);
+      log(`Local engine process error: ${error}`, true);
+      reject(new Error(`Failed to run ${binaryPath}: ${error.message}`));
+    });
+
+    engineProcess.on("close", (code) => {
+      signal?.removeEventListener("abort", onAbort);
+      if (code === 0) {
+        log(`Local engine finished in ${Date.now() - startTime}ms`);
+        resolve(stdout);
+      } else {
+        log(`Local engine exited with code ${code}: ${stderr}`, true);
+        reject(new Error(`Local engine exited with code ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,124 @@
+import OpenAI from "openai";
+import * as fs from "fs";
+
+import { log } from "../logger";
+import { providerModel } from "../providers";
+import { BackendId, TimedText, TranscriptionBackend, TranscriptionRequest } from "./types";
+
+const MAX_UPLOAD_SIZE_BYTES = 25 * 1024 * 1024; // 25MB absolute limit for Whisper API
+// Models accepted by the audio translations endpoint
+const TRANSLATION_MODELS = ["whisper-1"];
+// Models whose verbose_json response reports the detected language and segment timestamps; the gpt-4o models only return json or text
+const VERBOSE_JSON_MODELS = ["whisper-1"];
+
+// Transcription through the OpenAI audio API (or a compatible base URL override)
+export class OpenAIBackend implements TranscriptionBackend {
+  readonly id = BackendId.OpenAI;
+  readonly displayName = "OpenAI";
+  readonly maxFileSizeBytes = MAX_UPLOAD_SIZE_BYTES;
+  readonly acceptsCompressedAudio = true;
+
+  constructor(private readonly client: OpenAI, readonly model: string) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const audioData = fs.createReadStream(request.filePath);
+    log("Audio file stream created");
+
+    const detectLanguage = !request.language && request.onDetectedLanguage !== undefined && VERBOSE_JSON_MODELS.includes(this.model);
+
+    // Prepare transcription options
+    const transcriptionOptions: OpenAI.Audio.Transcriptions.TranscriptionCreateParams = {
+      file: audioData,
+      model: providerModel(this.client, this.model),
+      response_format: detectLanguage ? "verbose_json" : "text", // Plain text unless the detected language is needed
+    };
+
+    if (request.language) {
+      transcriptionOptions.language = request.language;
+    }
+
+    if (request.prompt) {
+      transcriptionOptions.prompt = request.prompt;
+    }
+
+    log("Starting transcription request to OpenAI...");
+    const transcription = await this.client.audio.transcriptions.create(transcriptionOptions, {
+      signal: request.signal,
+    });
+    log("Transcription received from OpenAI");
+
+    // Handle response based on format - when response_format is "text", we get a string directly
+    if (typeof transcription === "string") {
+      return transcription;
+    }
+    if (detectLanguage && "language" in transcription && typeof transcription.language === "string") {
+      request.onDetectedLanguage?.(transcription.language);
+    }
+    return transcription.text;
+  }
+
+  get supportsTimestamps(): boolean {
+    return VERBOSE_JSON_MODELS.includes(this.model);
+  }
+
+  async transcribeTimed(request: TranscriptionRequest): Promise<TimedText[]> {
+    if (!this.supportsTimestamps) {
+      throw new Error(`${this.model} does not return timestamps`);
+    }
+
+    const transcriptionOptions: OpenAI.Audio.Transcriptions.TranscriptionCreateParams<"verbose_json"> = {
+      file: fs.createReadStream(request.filePath),
+      model: providerModel(this.client, this.model),
+      response_format: "verbose_json",
+      timestamp_granularities: ["segment"],
+    };
+
+    if (request.language) {
+      transcriptionOptions.language = request.language;
+    }
+
+    if (request.prompt) {
+      transcriptionOptions.prompt = request.prompt;
+    }
+
+    log("Starting timestamped transcription request to OpenAI...");
+    const transcription = await this.client.audio.transcriptions.create(transcriptionOptions, {
+      signal: request.signal,
+    });
+    log(`Timestamped transcription received from OpenAI, ${transcription.segments?.length ?? 0} segment(s)`);
+
+    if (!request.language && transcription.language) {
+      request.onDetectedLanguage?.(transcription.language);
+    }
+    return (transcription.segments ?? []).map((segment) => ({ start: segment.start, end: segment.end, text: segment.text.trim() }));
+  }
+
+  get supportsTranslation(): boolean {
+    return TRANSLATION_MODELS.includes(this.model);
+  }
+
+  // The translations endpoint always produces English and takes no source language
+  async translate(request: TranscriptionRequest): Promise<string> {
+    if (!this.supportsTranslation) {
+      throw new Error(`${this.model} does not support the translations endpoint`);
+    }
+
+    const translationOptions: OpenAI.Audio.Translations.TranslationCreateParams = {
+      file: fs.createReadStream(request.filePath),
+      model: providerModel(this.client, this.model),
+      response_format: "text",
+    };
+
+    if (request.prompt) {
+      translationOptions.prompt = request.prompt;
+    }
+
+    log("Starting translation request to OpenAI...");
+    const translation = await this.client.audio.translations.create(translationOptions, {
+      signal: request.signal,
+    });
+    log("Translation received from OpenAI");
+
+    return typeof translation === "string" ? translation : translation.text;
+  }
+}
@@ -0,0 +1,52 @@
+// Identifiers accepted by the whisperdictation.backend setting
+export enum BackendId {
+  OpenAI = "openai",
+  Local = "local",
+  Http = "http",
+}
+
+// A single transcription job handed to a backend
+export interface TranscriptionRequest {
+  filePath: string;
+  language?: string;
+  prompt?: string;
+  signal?: AbortSignal;
+  // Called with the detected language (a code or an English name) when no language was given and the backend reports it
+  onDetectedLanguage?: (language: string) => void;
+}
+
+// A piece of transcript and where it is in the audio, in seconds
+export interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Common surface implemented by every transcription engine
+export interface TranscriptionBackend {
+  readonly id: BackendId;
+  readonly displayName: string;
+  // Model name reported in logs and used to pick the system prompt
+  readonly model: string;
+  // Largest file the backend accepts, undefined when there is no limit
+  readonly maxFileSizeBytes?: number;
+  // Whether the backend can decode compressed uploads (FLAC, Ogg, MP3) or needs the raw WAV
+  readonly acceptsCompressedAudio: boolean;
+  transcribe(request: TranscriptionRequest): Promise<string>;
+  // Whether translate() can be used with the backend's model
+  readonly supportsTranslation?: boolean;
+  // Transcribe speech in any language straight into English
+  translate?(request: TranscriptionRequest): Promise<string>;
+  // Whether transcribeTimed() can be used with the backend's model
+  readonly supportsTimestamps?: boolean;
+  // Transcribe into segments with timestamps reported by the model
+  transcribeTimed?(request: TranscriptionRequest): Promise<TimedText[]>;
+}
+
+// Non-2xx response from a transcription server, kept so failed recordings can be retried
+export class HttpStatusError extends Error {
+  constructor(readonly status: number, readonly retryAfter?: string) {
+    super(`Transcription server returned ${status}`);
+    this.name = "HttpStatusError";
+  }
+}
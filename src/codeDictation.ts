@@ -0,0 +1,375 @@
+import * as vscode from "vscode";
+
+// How dictated text is turned into editor text
+export enum TextMode {
+  Prose = "prose",
+  Code = "code",
+}
+
+export enum NamingStyle {
+  Camel = "camel",
+  Pascal = "pascal",
+  Snake = "snake",
+  ScreamingSnake = "screamingSnake",
+  Kebab = "kebab",
+}
+
+interface CodeSymbol {
+  text: string;
+  spaceBefore: boolean;
+  spaceAfter: boolean;
+  // Calls and index access attach directly to a preceding identifier
+  attachToIdentifier?: boolean;
+}
+
+const operator = (text: string): CodeSymbol => ({ text, spaceBefore: true, spaceAfter: true });
+const opening = (text: string): CodeSymbol => ({ text, spaceBefore: true, spaceAfter: false });
+const closing = (text: string): CodeSymbol => ({ text, spaceBefore: false, spaceAfter: true });
+const joining = (text: string): CodeSymbol => ({ text, spaceBefore: false, spaceAfter: false });
+
+// Spoken phrases that become symbols in code mode
+const CODE_SYMBOLS: Record<string, CodeSymbol> = {
+  arrow: operator("=>"),
+  "fat arrow": operator("=>"),
+  "thin arrow": operator("->"),
+  "triple equals": operator("==="),
+  "double equals": operator("=="),
+  equals: operator("="),
+  "not equals": operator("!="),
+  "strict not equals": operator("!=="),
+  "plus equals": operator("+="),
+  "minus equals": operator("-="),
+  "less than": operator("<"),
+  "greater than": operator(">"),
+  "less or equal": operator("<="),
+  "greater or equal": operator(">="),
+  plus: operator("+"),
+  minus: operator("-"),
+  times: operator("*"),
+  "divided by": operator("/"),
+  modulo: operator("%"),
+  "logical and": operator("&&"),
+  "logical or": operator("||"),
+  "nullish or": operator("??"),
+  pipe: operator("|"),
+  ampersand: operator("&"),
+  "open paren": { ...opening("("), attachToIdentifier: true },
+  "close paren": closing(")"),
+  "open brace": opening("{"),
+  "close brace": closing("}"),
+  "open bracket": { ...opening("["), attachToIdentifier: true },
+  "close bracket": closing("]"),
+  "open angle": joining("<"),
+  "close angle": closing(">"),
+  dot: joining("."),
+  comma: closing(","),
+  colon: closing(":"),
+  semicolon: closing(";"),
+  "question mark": joining("?"),
+  bang: joining("!"),
+  underscore: joining("_"),
+  hash: opening("#"),
+  "at sign": opening("@"),
+  dollar: opening("$"),
+  quote: joining('"'),
+  "single quote": joining("'"),
+  backtick: joining("`"),
+  slash: joining("/"),
+  backslash: joining("\\"),
+  "new line": joining("\n"),
+};
+
+const NATO_ALPHABET: Record<string, string> = {
+  alpha: "a",
+  alfa: "a",
+  bravo: "b",
+  charlie: "c",
+  delta: "d",
+  echo: "e",
+  foxtrot: "f",
+  golf: "g",
+  hotel: "h",
+  india: "i",
+  juliet: "j",
+  juliett: "j",
+  kilo: "k",
+  lima: "l",
+  mike: "m",
+  november: "n",
+  oscar: "o",
+  papa: "p",
+  quebec: "q",
+  romeo: "r",
+  sierra: "s",
+  tango: "t",
+  uniform: "u",
+  victor: "v",
+  whiskey: "w",
+  whisky: "w",
+  "x-ray": "x",
+  xray: "x",
+  yankee: "y",
+  zulu: "z",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+};
+
+// Spoken prefixes that force a naming style for the next identifier
+const STYLE_PHRASES: Record<string, NamingStyle> = {
+  "camel case": NamingStyle.Camel,
+  "pascal case": NamingStyle.Pascal,
+  "snake case": NamingStyle.Snake,
+  "constant case": NamingStyle.ScreamingSnake,
+  "kebab case": NamingStyle.Kebab,
+};
+
+// Words that start a new token instead of becoming part of an identifier
+const KEYWORDS = new Set([
+  "async",
+  "await",
+  "break",
+  "case",
+  "class",
+  "const",
+  "continue",
+  "def",
+  "else",
+  "export",
+  "fn",
+  "for",
+  "from",
+  "func",
+  "function",
+  "if",
+  "import",
+  "in",
+  "let",
+  "new",
+  "not",
+  "of",
+  "pub",
+  "return",
+  "self",
+  "static",
+  "this",
+  "throw",
+  "type",
+  "var",
+  "while",
+  "yield",
+]);
+
+const SNAKE_CASE_LANGUAGES = new Set(["python", "ruby", "rust", "elixir", "perl", "shellscript", "sql", "c", "cpp", "php"]);
+const PASCAL_CASE_LANGUAGES = new Set(["csharp", "fsharp", "vb", "powershell"]);
+const KEBAB_CASE_LANGUAGES = new Set(["css", "scss", "less", "html", "clojure", "lisp"]);
+
+const SPELL_START = ["spell"];
+const SPELL_END = ["end spell", "stop spelling"];
+const CAPITAL_WORDS = new Set(["cap", "capital"]);
+const SPACE_WORDS = new Set(["space"]);
+
+// Read the active text mode from the settings
+export function getTextMode(): TextMode {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return config.get<string>("textMode") === TextMode.Code ? TextMode.Code : TextMode.Prose;
+}
+
+// Choose a naming style from the language and the identifiers around the cursor
+export function detectNamingStyle(document: vscode.TextDocument | undefined, position?: vscode.Position): NamingStyle {
+  if (!document) {
+    return NamingStyle.Camel;
+  }
+
+  let fallback = NamingStyle.Camel;
+  if (SNAKE_CASE_LANGUAGES.has(document.languageId)) {
+    fallback = NamingStyle.Snake;
+  } else if (PASCAL_CASE_LANGUAGES.has(document.languageId)) {
+    fallback = NamingStyle.Pascal;
+  } else if (KEBAB_CASE_LANGUAGES.has(document.languageId)) {
+    fallback = NamingStyle.Kebab;
+  }
+
+  // Count multi-word identifiers in the surrounding lines
+  const line = position?.line ?? 0;
+  const range = new vscode.Range(Math.max(0, line - 50), 0, Math.min(document.lineCount - 1, line + 50), 0);
+  const text = document.getText(range);
+  const counts = new Map<NamingStyle, number>();
+  const count = (style: NamingStyle, pattern: RegExp) => counts.set(style, (text.match(pattern) ?? []).length);
+
+  count(NamingStyle.Camel, /\b[a-z][a-z0-9]*(?:[A-Z][a-z0-9]+)+\b/g);
+  count(NamingStyle.Pascal, /\b[A-Z][a-z0-9]+(?:[A-Z][a-z0-9]+)+\b/g);
+  count(NamingStyle.Snake, /\b[a-z][a-z0-9]*(?:_[a-z0-9]+)+\b/g);
+  count(NamingStyle.Kebab, /(?<![\w-])[a-z][a-z0-9]*(?:-[a-z0-9]+)+(?![\w-])/g);
+
+  const [best, bestCount] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+  // Kebab-case matches minus expressions in most languages, only trust it where it is idiomatic
+  if (best === NamingStyle.Kebab && !KEBAB_CASE_LANGUAGES.has(document.languageId)) {
+    return fallback;
+  }
+  // Classes are PascalCase almost everywhere, so PascalCase alone does not override the language default
+  if (best === NamingStyle.Pascal && fallback !== NamingStyle.Pascal) {
+    return fallback;
+  }
+  return bestCount >= 3 ? best : fallback;
+}
+
+export function formatIdentifier(words: string[], style: NamingStyle): string {
+  const lower = words.map((word) => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+  switch (style) {
+    case NamingStyle.Pascal:
+      return lower.map(capitalize).join("");
+    case NamingStyle.Snake:
+      return lower.join("_");
+    case NamingStyle.ScreamingSnake:
+      return lower.join("_").toUpperCase();
+    case NamingStyle.Kebab:
+      return lower.join("-");
+    case NamingStyle.Camel:
+    default:
+      return lower.map((word, index) => (index === 0 ? word : capitalize(word))).join("");
+  }
+}
+
+interface CodeToken extends CodeSymbol {
+  isIdentifier?: boolean;
+}
+
+// Transform a transcript into code: identifiers in the detected style, symbols for spoken operators
+export function transformToCode(transcript: string, defaultStyle: NamingStyle): string {
+  // Numbers keep their digits, everything else is compared without the model's punctuation
+  const words = transcript
+    .split(/\s+/)
+    .map((word) => (/^\d+([.,]\d+)?[.,!?]?$/.test(word) ? word.replace(/[,!?]$|\.$/, "") : word.replace(/[^\p{L}\p{N}'-]/gu, "").toLowerCase()))
+    .filter((word) => word.length > 0);
+
+  const tokens: CodeToken[] = [];
+  let identifier: string[] = [];
+  let style = defaultStyle;
+
+  const flushIdentifier = () => {
+    if (identifier.length > 0) {
+      tokens.push({ text: formatIdentifier(identifier, style), spaceBefore: true, spaceAfter: true, isIdentifier: true });
+      identifier = [];
+      style = defaultStyle;
+    }
+  };
+
+  let index = 0;
+  while (index < words.length) {
+    const phrase = matchLongest(words, index, [...Object.keys(CODE_SYMBOLS), ...Object.keys(STYLE_PHRASES), ...SPELL_START, ...SPACE_WORDS]);
+
+    if (phrase && SPELL_START.includes(phrase)) {
+      flushIdentifier();
+      const spelled = spell(words, index + 1);
+      if (spelled.text) {
+        tokens.push({ text: spelled.text, spaceBefore: true, spaceAfter: true, isIdentifier: true });
+      }
+      index = spelled.nextIndex;
+      continue;
+    }
+
+    if (phrase && STYLE_PHRASES[phrase]) {
+      flushIdentifier();
+      style = STYLE_PHRASES[phrase];
+      index += phrase.split(" ").length;
+      continue;
+    }
+
+    if (phrase && SPACE_WORDS.has(phrase)) {
+      flushIdentifier();
+      index++;
+      continue;
+    }
+
+    if (phrase && CODE_SYMBOLS[phrase]) {
+      flushIdentifier();
+      tokens.push({ ...CODE_SYMBOLS[phrase] });
+      index += phrase.split(" ").length;
+      continue;
+    }
+
+    const word = words[index];
+    if (KEYWORDS.has(word) && identifier.length === 0) {
+      tokens.push({ text: word, spaceBefore: true, spaceAfter: true });
+    } else if (/^\d/.test(word)) {
+      // Digits continue an identifier (e.g. "vector 3") or stand alone as a literal
+      if (identifier.length > 0) {
+        identifier.push(word);
+      } else {
+        tokens.push({ text: word, spaceBefore: true, spaceAfter: true });
+      }
+    } else {
+      identifier.push(word);
+    }
+    index++;
+  }
+  flushIdentifier();
+
+  return joinTokens(tokens);
+}
+
+// Letter-by-letter spelling with the NATO alphabet until "end spell"
+function spell(words: string[], start: number): { text: string; nextIndex: number } {
+  let text = "";
+  let capitalizeNext = false;
+  let index = start;
+
+  while (index < words.length) {
+    const end = matchLongest(words, index, SPELL_END);
+    if (end) {
+      return { text, nextIndex: index + end.split(" ").length };
+    }
+
+    const word = words[index];
+    if (CAPITAL_WORDS.has(word)) {
+      capitalizeNext = true;
+    } else {
+      const letter = NATO_ALPHABET[word] ?? (CODE_SYMBOLS[word]?.text.trim() || word);
+      text += capitalizeNext ? letter.toUpperCase() : letter;
+      capitalizeNext = false;
+    }
+    index++;
+  }
+  return { text, nextIndex: index };
+}
+
+function matchLongest(words: string[], start: number, phrases: string[]): string | undefined {
+  let best: string | undefined;
+  for (const phrase of phrases) {
+    const parts = phrase.split(" ");
+    if (start + parts.length > words.length) {
+      continue;
+    }
+    if (parts.every((part, offset) => words[start + offset] === part) && (!best || parts.length > best.split(" ").length)) {
+      best = phrase;
+    }
+  }
+  return best;
+}
+
+function joinTokens(tokens: CodeToken[]): string {
+  let output = "";
+  let previous: CodeToken | undefined;
+
+  for (const token of tokens) {
+    const needsSpace =
+      previous !== undefined &&
+      previous.spaceAfter &&
+      token.spaceBefore &&
+      !(token.attachToIdentifier && previous.isIdentifier) &&
+      !output.endsWith("\n");
+    output += (needsSpace ? " " : "") + token.text;
+    previous = token;
+  }
+  return output;
+}
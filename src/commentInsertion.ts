@@ -0,0 +1,223 @@
+import * as vscode from "vscode";
+
+// Comment delimiters of a language; either kind may be missing
+interface CommentSyntax {
+  line?: string;
+  block?: { start: string; end: string; linePrefix: string };
+}
+
+const C_STYLE: CommentSyntax = { line: "//", block: { start: "/*", end: " */", linePrefix: " * " } };
+const HASH: CommentSyntax = { line: "#" };
+const DOUBLE_DASH: CommentSyntax = { line: "--" };
+const MARKUP: CommentSyntax = { block: { start: "<!--", end: "-->", linePrefix: "  " } };
+const CSS: CommentSyntax = { block: C_STYLE.block };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  typescript: C_STYLE,
+  typescriptreact: C_STYLE,
+  javascript: C_STYLE,
+  javascriptreact: C_STYLE,
+  java: C_STYLE,
+  c: C_STYLE,
+  cpp: C_STYLE,
+  csharp: C_STYLE,
+  go: C_STYLE,
+  rust: C_STYLE,
+  swift: C_STYLE,
+  kotlin: C_STYLE,
+  scala: C_STYLE,
+  dart: C_STYLE,
+  php: C_STYLE,
+  fsharp: { line: "//", block: { start: "(*", end: " *)", linePrefix: "   " } },
+  jsonc: C_STYLE,
+  scss: C_STYLE,
+  less: C_STYLE,
+  css: CSS,
+  python: HASH,
+  shellscript: HASH,
+  ruby: HASH,
+  perl: HASH,
+  r: HASH,
+  yaml: HASH,
+  toml: HASH,
+  dockerfile: HASH,
+  makefile: HASH,
+  elixir: HASH,
+  coffeescript: HASH,
+  powershell: { line: "#", block: { start: "<#", end: "#>", linePrefix: "  " } },
+  sql: DOUBLE_DASH,
+  lua: DOUBLE_DASH,
+  haskell: DOUBLE_DASH,
+  html: MARKUP,
+  xml: MARKUP,
+  vue: MARKUP,
+  clojure: { line: ";;" },
+  lisp: { line: ";;" },
+  vb: { line: "'" },
+  latex: { line: "%" },
+  tex: { line: "%" },
+  matlab: { line: "%" },
+  erlang: { line: "%" },
+  bat: { line: "REM" },
+};
+
+// Where the cursor is, as far as a line-based scan can tell
+enum CursorContext {
+  Code = "code",
+  String = "string",
+  LineComment = "lineComment",
+  BlockComment = "blockComment",
+}
+
+export enum CommentStyle {
+  Line = "line",
+  Block = "block",
+}
+
+export interface CommentOptions {
+  style: CommentStyle;
+}
+
+const DEFAULT_WRAP_COLUMN = 80;
+const MIN_WRAP_WIDTH = 20;
+
+// Comment wrapping settings, or undefined when dictation is inserted as is
+export function getCommentOptions(): CommentOptions | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (!config.get<boolean>("comments.wrapInCode")) {
+    return undefined;
+  }
+  return { style: config.get<CommentStyle>("comments.style") === CommentStyle.Block ? CommentStyle.Block : CommentStyle.Line };
+}
+
+// The first ruler, else the word wrap column
+function getWrapColumn(document: vscode.TextDocument): number {
+  const editorConfig = vscode.workspace.getConfiguration("editor", document);
+  const rulers = editorConfig.get<(number | { column: number })[]>("rulers") ?? [];
+  if (rulers.length > 0) {
+    const first = rulers[0];
+    return typeof first === "number" ? first : first.column;
+  }
+  return editorConfig.get<number>("wordWrapColumn") || DEFAULT_WRAP_COLUMN;
+}
+
+// Greedy word wrap; the first line can be shorter when it continues existing text
+function wrapWords(text: string, width: number, firstWidth = width): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter((part) => part)) {
+      const limit = lines.length === 0 ? firstWidth : width;
+      if (line && line.length + 1 + word.length > limit) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function getCursorContext(document: vscode.TextDocument, position: vscode.Position, syntax: CommentSyntax): CursorContext {
+  const before = document.lineAt(position.line).text.slice(0, position.character);
+
+  if (syntax.block) {
+    const textBefore = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+    const lastStart = textBefore.lastIndexOf(syntax.block.start);
+    const lastEnd = textBefore.lastIndexOf(syntax.block.end.trim());
+    if (lastStart !== -1 && lastStart > lastEnd) {
+      return CursorContext.BlockComment;
+    }
+  }
+
+  // Walk the line to tell strings from line comments
+  let quote: string | undefined;
+  for (let i = 0; i < before.length; i++) {
+    const char = before[i];
+    if (quote) {
+      if (char === "\\") {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (syntax.line && before.startsWith(syntax.line, i)) {
+      return CursorContext.LineComment;
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    }
+  }
+  return quote ? CursorContext.String : CursorContext.Code;
+}
+
+// Wrap dictated prose in comment syntax when the cursor is in code, or continue the comment the cursor is in
+export function formatForCommentContext(
+  text: string,
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  options: CommentOptions
+): string {
+  const syntax = COMMENT_SYNTAX[document.languageId];
+  if (!syntax || !text.trim()) {
+    return text;
+  }
+
+  const lineText = document.lineAt(position.line).text;
+  const before = lineText.slice(0, position.character);
+  const after = lineText.slice(position.character);
+  const indent = /^\s*/.exec(lineText)?.[0] ?? "";
+  const column = getWrapColumn(document);
+  const context = getCursorContext(document, position, syntax);
+
+  switch (context) {
+    case CursorContext.String:
+      return text;
+    case CursorContext.LineComment:
+    case CursorContext.BlockComment: {
+      // Continue the comment with the prefix of the current line, e.g. "// " or " * "
+      const prefix =
+        context === CursorContext.LineComment
+          ? new RegExp(`^\\s*${escapeRegExp(syntax.line ?? "")}\\s?`).exec(lineText)?.[0] ?? indent
+          : /^\s*\*\s?/.exec(lineText)?.[0] ?? `${indent}${syntax.block?.linePrefix ?? ""}`;
+      const separator = before && !/\s$/.test(before) ? " " : "";
+      const lines = wrapWords(
+        text,
+        Math.max(MIN_WRAP_WIDTH, column - prefix.length),
+        Math.max(MIN_WRAP_WIDTH, column - position.character - separator.length)
+      );
+      return separator + lines.join(`\n${prefix}`);
+    }
+    case CursorContext.Code:
+    default:
+      break;
+  }
+
+  const useBlock = syntax.block && (options.style === CommentStyle.Block || !syntax.line);
+  let commentLines: string[];
+  if (useBlock && syntax.block) {
+    const { start, end, linePrefix } = syntax.block;
+    const lines = wrapWords(text, Math.max(MIN_WRAP_WIDTH, column - indent.length - linePrefix.length));
+    commentLines =
+      lines.length === 1 && indent.length + start.length + lines[0].length + end.length + 1 <= column
+        ? [`${start} ${lines[0]}${end.startsWith(" ") ? end : ` ${end}`}`]
+        : [start, ...lines.map((line) => `${linePrefix}${line}`.trimEnd()), end];
+  } else {
+    const prefix = `${syntax.line} `;
+    const lines = wrapWords(text, Math.max(MIN_WRAP_WIDTH, column - indent.length - prefix.length));
+    commentLines = lines.map((line) => `${prefix}${line}`.trimEnd());
+  }
+
+  // Put the comment on its own lines at the current indentation
+  const startsAfterCode = before.trim().length > 0;
+  const endsBeforeCode = after.trim().length > 0;
+  return (
+    (startsAfterCode ? `\n${indent}` : "") +
+    commentLines.join(`\n${indent}`) +
+    (endsBeforeCode ? `\n${startsAfterCode ? indent : before}` : "")
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
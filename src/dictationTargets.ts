@@ -0,0 +1,128 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+import { log } from "./logger";
+
+// Where a dictation started with "whisperdictation.dictateTo" is delivered
+export enum DictationTargetKind {
+  Editor = "editor",
+  Terminal = "terminal",
+  Scm = "scm",
+  Untitled = "untitled",
+}
+
+export interface DictationTarget {
+  kind: DictationTargetKind;
+  // Terminal only: send Enter after the text
+  pressEnter?: boolean;
+}
+
+// The parts of the built-in git extension's API used here
+interface GitInputBox {
+  value: string;
+}
+
+interface GitRepository {
+  readonly rootUri: vscode.Uri;
+  readonly inputBox: GitInputBox;
+  readonly ui: { readonly selected: boolean };
+}
+
+interface GitAPI {
+  readonly repositories: GitRepository[];
+}
+
+interface GitExtension {
+  getAPI(version: 1): GitAPI;
+}
+
+const TARGET_LABELS: Record<DictationTargetKind, string> = {
+  [DictationTargetKind.Editor]: "$(edit) Editor",
+  [DictationTargetKind.Terminal]: "$(terminal) Terminal",
+  [DictationTargetKind.Scm]: "$(source-control) Commit Message",
+  [DictationTargetKind.Untitled]: "$(new-file) New Untitled Document",
+};
+
+// Accept "terminal" or { target: "terminal", pressEnter: true } from keybinding arguments
+export function parseDictationTarget(arg: unknown): DictationTarget | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const defaultPressEnter = config.get<boolean>("terminal.pressEnter") ?? false;
+
+  if (typeof arg === "string" && Object.values(DictationTargetKind).includes(arg as DictationTargetKind)) {
+    return { kind: arg as DictationTargetKind, pressEnter: defaultPressEnter };
+  }
+  if (arg && typeof arg === "object") {
+    const { target, pressEnter } = arg as { target?: string; pressEnter?: boolean };
+    if (Object.values(DictationTargetKind).includes(target as DictationTargetKind)) {
+      return { kind: target as DictationTargetKind, pressEnter: pressEnter ?? defaultPressEnter };
+    }
+  }
+  return undefined;
+}
+
+export async function pickDictationTarget(): Promise<DictationTarget | undefined> {
+  const picked = await vscode.window.showQuickPick(
+    Object.values(DictationTargetKind).map((kind) => ({ label: TARGET_LABELS[kind], target: kind })),
+    { placeHolder: "Where should the dictation go?" }
+  );
+  return picked ? parseDictationTarget(picked.target) : undefined;
+}
+
+// Whether a file lies within a folder; a plain prefix check would also match sibling folders like /repo2 for /repo
+function isInsideFolder(filePath: string, folderPath: string): boolean {
+  const relative = path.relative(folderPath, filePath);
+  return relative !== ".." && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+async function getGitRepository(): Promise<GitRepository | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtension>("vscode.git");
+  if (!extension) {
+    return undefined;
+  }
+  const git = (extension.isActive ? extension.exports : await extension.activate()).getAPI(1);
+
+  // Prefer the repository selected in the Source Control view, then the one holding the active file
+  const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+  return (
+    git.repositories.find((repository) => repository.ui.selected) ??
+    git.repositories.find((repository) => activeFile && isInsideFolder(activeFile, repository.rootUri.fsPath)) ??
+    git.repositories[0]
+  );
+}
+
+// Deliver text to a target other than the editor. Returns false when the target is not available.
+export async function deliverToTarget(text: string, target: DictationTarget): Promise<boolean> {
+  switch (target.kind) {
+    case DictationTargetKind.Terminal: {
+      const terminal = vscode.window.activeTerminal;
+      if (!terminal) {
+        return false;
+      }
+      // The shell would run every line of a multi-line dictation as a separate command, so it is always sent as one line
+      terminal.sendText(text.replace(/\s*\r?\n\s*/g, " "), target.pressEnter ?? false);
+      terminal.show();
+      log(`Dictation sent to terminal "${terminal.name}"${target.pressEnter ? " with Enter" : ""}`);
+      return true;
+    }
+    case DictationTargetKind.Scm: {
+      const repository = await getGitRepository();
+      if (!repository) {
+        return false;
+      }
+      const current = repository.inputBox.value;
+      repository.inputBox.value = current ? `${current}${/\s$/.test(current) ? "" : " "}${text}` : text;
+      await vscode.commands.executeCommand("workbench.view.scm");
+      log(`Dictation added to the commit message of ${repository.rootUri.fsPath}`);
+      return true;
+    }
+    case DictationTargetKind.Untitled: {
+      const document = await vscode.workspace.openTextDocument({ content: text });
+      await vscode.window.showTextDocument(document);
+      log("Dictation opened in a new untitled document");
+      return true;
+    }
+    case DictationTargetKind.Editor:
+    default:
+      return false;
+  }
+}
@@ -10,16 +10,60 @@ import * as path from "path";
 import * as os from "os";
 import { spawn } from "child_process";
 
+import { DictationOptions, TranscribeFileOptions, TranscriptionEvent, TranscriptionOptions, WhisperDictationApi } from "./api";
+import { BackendId, TimedText, TranscriptionBackend, TranscriptionRequest, createBackend, getConfiguredBackendId, withFallback } from "./backends";
+import { describeInputDevice, listAudioDevices } from "./audioDevices";
+import { AudioSource, AudioSourceKind, createAudioSource, getAudioSourceKind } from "./audioSources";
+import { formatForCommentContext, getCommentOptions } from "./commentInsertion";
+import { DictationTarget, DictationTargetKind, deliverToTarget, parseDictationTarget, pickDictationTarget } from "./dictationTargets";
+import { AUDIO_FILE_EXTENSIONS, TRANSCRIPT_FORMAT_LABELS, TranscriptFormat, formatTranscript, getTranscriptPath, transcribeTimed } from "./fileTranscription";
+import { initLogger, log } from "./logger";
+import { DictationLanguage, LanguageUsage, formatLanguage, resolveDictationLanguage, toLanguageCode } from "./language";
+import { LiveDictationSession, getLiveDictationOptions } from "./liveDictation";
+import { REALTIME_SAMPLE_RATE } from "./realtime";
+import { RealtimeDictationSession } from "./realtimeDictation";
+import { TextMode, detectNamingStyle, getTextMode, transformToCode } from "./codeDictation";
+import { getSegmentationOptions, getWavDuration, shouldSegment, transcribeInSegments } from "./segmentation";
+import { convertToWav, getAudioDuration, getSoxPath, isAppleSilicon } from "./sox";
+import { UploadTooLargeError, prepareUpload } from "./uploadEncoding";
+import {
+  REWRITE_PRESET_LABELS,
+  RewriteOptions,
+  RewritePreset,
+  getRewriteOptions,
+  getRewritePreset,
+  recordRewrite,
+  rewriteTranscript,
+  swapLastRewrite,
+} from "./rewrite";
+import { DictationHistory, DictationHistoryEntry, DictationHistoryProvider, describeEntry } from "./history";
+import { captureInsertionTarget, getInsertionStrategy, insertDictation, isTargetUnchanged } from "./insertion";
+import { RecordingEvent, RecordingMonitor, getRecordingLimits } from "./recordingMonitor";
+import { QueuedRecording, RetryQueue, findOrphanedRecordings } from "./retryQueue";
+import { VoiceEditTarget, previewAndApplyEdits, proposeSelectionEdits, registerVoiceEditPreview } from "./voiceEdit";
+import { UsageTracker, formatUsd, getPricePerMinute, getUsageOptions } from "./usage";
+import { PreprocessingOptions, getPreprocessingOptions, preprocessRecording, recordNoiseProfile } from "./preprocessing";
+import {
+  AuthScheme,
+  DEFAULT_PROFILE_NAME,
+  ProviderProfile,
+  ProviderType,
+  createProviderClient,
+  describeProfile,
+  getActiveProfile,
+  getFallbackProfile,
+  getProfileSecretKey,
+  getProfiles,
+  listProfileModels,
+  mapModel,
+} from "./providers";
+import { TranslationOptions, asTranslatingBackend, canTranslateAudio, describeLanguage, getTranslationOptions, translateTranscript } from "./translation";
+import { VocabularyTerm, appendVocabulary, collectVocabulary, getVocabularyOptions } from "./vocabulary";
+import { SpokenAction, SpokenCommandResult, applySpokenCommands, getSpokenGrammar } from "./spokenCommands";
+
 // Build time is injected by webpack
 declare const BUILD_TIME: string;
 
-// Type definitions
-interface AudioDevice {
-  name: string;
-  id: string;
-  isDefault?: boolean;
-}
-
 // Recording states
 enum RecordingState {
   Idle = "idle",
@@ -31,56 +75,67 @@ enum RecordingState {
 enum DictationMode {
   Normal = "normal",
   ClipboardOnly = "clipboard-only",
+  Live = "live",
+  Realtime = "realtime",
+  EditSelection = "edit-selection",
+  // Recording for another extension through the API, nothing is inserted
+  Capture = "capture",
 }
 
 // Global state
 let recordingProcess: ReturnType<typeof spawn> | undefined;
+let audioSource: AudioSource | undefined;
+// Recording to replay instead of the configured audio source, for "Replay Recording"
+let replayFile: string | undefined;
 let statusBarItem: vscode.StatusBarItem;
+let textModeStatusBarItem: vscode.StatusBarItem;
+let languageStatusBarItem: vscode.StatusBarItem;
 let openai: OpenAI | undefined;
 let outputChannel: vscode.OutputChannel;
 let tempFilePath: string | undefined;
 let extensionContext: vscode.ExtensionContext;
 let recordingTimer: NodeJS.Timeout | undefined;
+let recordingMonitor: RecordingMonitor | undefined;
 let currentState: RecordingState = RecordingState.Idle;
 let currentDictationMode: DictationMode = DictationMode.Normal;
 let transcriptionAbortController: AbortController | undefined;
-
-const OPENAI_API_KEY_SECRET = "openai-key";
-const MAX_FILE_SIZE_BYTES = 2 * 1024 * 1024; // 2MB limit before compression
-const MAX_FINAL_SIZE_BYTES = 25 * 1024 * 1024; // 25MB absolute limit for Whisper API
-
-function getOpenAIBaseUrlOverride(): string | undefined {
-  const config = vscode.workspace.getConfiguration("whisperdictation");
-  const raw = config.get<string>("openaiBaseUrl") ?? "";
-  const trimmed = raw.trim();
-  return trimmed.length > 0 ? trimmed : undefined;
-}
-
-function createOpenAIClient(apiKey: string): OpenAI {
-  const baseURL = getOpenAIBaseUrlOverride();
-  if (baseURL) {
-    log(`Using OpenAI base URL override: ${baseURL}`);
-    return new OpenAI({ apiKey, baseURL });
-  }
-
-  return new OpenAI({ apiKey });
-}
-
-// Helper function for logging
-function log(message: string, error: boolean = false) {
-  const timestamp = new Date().toISOString();
-  const logMessage = `[${timestamp}] ${message}`;
-  outputChannel.appendLine(logMessage);
-  if (error) {
-    console.error(logMessage);
-  } else {
-    console.log(logMessage);
-  }
+let processingDetail: string | undefined;
+let streamingSession: LiveDictationSession | RealtimeDictationSession | undefined;
+let dictationHistory: DictationHistory | undefined;
+let retryQueue: RetryQueue | undefined;
+let queueStatusBarItem: vscode.StatusBarItem;
+let dictationTarget: DictationTarget | undefined;
+let voiceEditTarget: VoiceEditTarget | undefined;
+let translateDictation = false;
+let languageUsage: LanguageUsage | undefined;
+let usageTracker: UsageTracker | undefined;
+// Language detected in the last dictation with automatic detection
+let lastDetectedLanguage: string | undefined;
+// Model and language chosen by the caller of whisperdictation.startDictation or the API
+let dictationOptions: TranscriptionOptions | undefined;
+// Callers waiting for the text of the current dictation, resolved when it ends
+let dictationWaiters: ((text: string | undefined) => void)[] = [];
+let dictationResult: string | undefined;
+// Backend and model of the live or realtime session, for the transcription event
+let streamingBackend: { id: BackendId; model: string } | undefined;
+// Transcript of the capture started through the API
+let captureResult: Promise<string | undefined> | undefined;
+const transcriptionEmitter = new vscode.EventEmitter<TranscriptionEvent>();
+
+const REALTIME_MODELS = ["gpt-4o-transcribe", "gpt-4o-mini-transcribe"];
+// OpenAI model used for subtitles when the configured one returns no timestamps
+const TIMESTAMP_MODEL = "whisper-1";
+// Room tone recorded by "Calibrate Noise"
+const NOISE_CALIBRATION_SECONDS = 3;
+
+function createOpenAIClient(apiKey: string, profile: ProviderProfile = getActiveProfile()): OpenAI {
+  log(`Using provider profile "${profile.name}": ${describeProfile(profile)}`);
+  return createProviderClient(profile, apiKey);
 }
 
-// Helper function to detect Apple Silicon
-function isAppleSilicon(): boolean {
-  return os.platform() === "darwin" && process.arch === "arm64";
+// The stored key of a profile; profiles without authentication use an empty key
+async function getStoredApiKey(profile: ProviderProfile): Promise<string | undefined> {
+  return profile.auth === AuthScheme.None ? "" : extensionContext.secrets.get(getProfileSecretKey(profile));
 }
 
 // Helper function to show platform-specific SoX error
@@ -193,34 +248,9 @@ async function verifySoxInstallation(): Promise<boolean> {
   }
 }
 
-// Helper function to get SoX path
-function getSoxPath(): string {
-  const platform = os.platform();
-  const extensionPath = path.dirname(__dirname);
-
-  switch (platform) {
-    case "win32":
-      return path.join(extensionPath, "resources", "bin", "win32", "sox.exe");
-    case "darwin":
-      // For Apple Silicon, use system-installed SoX
-      if (isAppleSilicon()) {
-        return "sox"; // Use PATH-based SoX
-      }
-      return path.join(extensionPath, "resources", "bin", "darwin", "sox");
-    case "linux":
-      return "/usr/bin/sox"; // Use full path to system-installed SoX
-    default:
-      throw new Error(`Unsupported platform: ${platform}`);
-  }
-}
-
 // Reset recording state
 function resetRecordingState() {
-  // Clear recording timer
-  if (recordingTimer) {
-    clearTimeout(recordingTimer);
-    recordingTimer = undefined;
-  }
+  stopRecordingTimer();
 
   // Kill the recording process if it exists
   if (recordingProcess) {
@@ -231,6 +261,7 @@ function resetRecordingState() {
     }
     recordingProcess = undefined;
   }
+  disposeAudioSource();
 
   // Abort transcription if in progress
   if (transcriptionAbortController) {
@@ -243,20 +274,103 @@ function resetRecordingState() {
     transcriptionAbortController = undefined;
   }
 
-  // Clean up temp file
+  // Stop inserting live or realtime dictation text
+  if (streamingSession) {
+    streamingSession.dispose();
+    streamingSession = undefined;
+  }
+
+  // Clean up temp file; it may already have been moved into the retry queue
   if (tempFilePath && fs.existsSync(tempFilePath)) {
     try {
       fs.unlinkSync(tempFilePath);
     } catch (error) {
       log(`Error cleaning up temp file: ${error}`, true);
     }
-    tempFilePath = undefined;
   }
+  tempFilePath = undefined;
 
   // Reset recording state and status bar
   currentState = RecordingState.Idle;
+  processingDetail = undefined;
   updateStatusBarState();
   resetDictationMode();
+  finishDictationWaiters();
+}
+
+function disposeAudioSource() {
+  audioSource?.dispose();
+  audioSource = undefined;
+}
+
+// Resolve the callers waiting for the dictation that just ended
+function finishDictationWaiters() {
+  const waiters = dictationWaiters;
+  const text = dictationResult;
+  dictationWaiters = [];
+  dictationResult = undefined;
+  waiters.forEach((resolve) => resolve(text));
+}
+
+// Tell API users about a finished transcript
+function fireTranscribed(event: Omit<TranscriptionEvent, "timestamp">) {
+  transcriptionEmitter.fire({ ...event, timestamp: Date.now() });
+}
+
+// The language of a dictation: the caller's choice, else the rules for the document
+function getDictationLanguage(document?: vscode.TextDocument): DictationLanguage {
+  if (dictationOptions?.language !== undefined) {
+    return { code: toLanguageCode(dictationOptions.language) ?? "" };
+  }
+  return resolveDictationLanguage(document);
+}
+
+// Refresh the elapsed time and input level while recording and enforce the automatic stop limits
+function startRecordingTimer() {
+  stopRecordingTimer();
+  recordingMonitor = new RecordingMonitor(getRecordingLimits());
+  recordingTimer = setInterval(() => {
+    if (!recordingMonitor || currentState !== RecordingState.Recording) {
+      return;
+    }
+    if (tempFilePath && !streamingSession) {
+      recordingMonitor.sampleFile(tempFilePath);
+    }
+    updateStatusBarState();
+
+    switch (recordingMonitor.check()) {
+      case RecordingEvent.NoInput:
+        log("No sound from the microphone since recording started", true);
+        void vscode.window
+          .showWarningMessage(
+            "The microphone seems silent. Check that the right microphone is selected and not muted.",
+            "Select Microphone"
+          )
+          .then((choice) => {
+            if (choice === "Select Microphone") {
+              void vscode.commands.executeCommand("whisperdictation.selectMicrophone");
+            }
+          });
+        break;
+      case RecordingEvent.MaxDurationReached:
+        log("Maximum recording length reached, stopping");
+        vscode.window.showInformationMessage("Recording stopped after reaching whisperdictation.maxRecordingSeconds.");
+        void stopRecording();
+        break;
+      case RecordingEvent.SilenceTimeout:
+        log("Silence after speech, stopping automatically");
+        void stopRecording();
+        break;
+    }
+  }, 250);
+}
+
+function stopRecordingTimer() {
+  if (recordingTimer) {
+    clearInterval(recordingTimer);
+    recordingTimer = undefined;
+  }
+  recordingMonitor = undefined;
 }
 
 // Update status bar based on current state
@@ -269,21 +383,162 @@ function updateStatusBarState() {
     case RecordingState.Idle:
       statusBarItem.text = "$(mic) Start Dictation";
       statusBarItem.command = "whisperdictation.startDictation";
-      statusBarItem.tooltip = "Start recording using system default microphone";
+      statusBarItem.tooltip =
+        getAudioSourceKind() === AudioSourceKind.Microphone
+          ? `Start recording using ${describeInputDevice()}`
+          : `Start recording from the ${getAudioSourceKind()} audio source`;
       break;
     case RecordingState.Recording:
-      statusBarItem.text = "$(record) Recording... Click to Stop";
+      {
+        const hud = recordingMonitor ? ` ${recordingMonitor.describe()}` : "";
+        if (streamingSession) {
+          const pending = streamingSession.pending;
+          statusBarItem.text =
+            pending > 0 ? `$(record) Live${hud} (${pending} pending)... Click to Stop` : `$(record) Live${hud}... Click to Stop`;
+          statusBarItem.tooltip = "Live dictation in progress - text is inserted at each pause";
+        } else {
+          statusBarItem.text = voiceEditTarget
+            ? `$(record) Recording instruction${hud}... Click to Stop`
+            : `$(record) Recording${hud}... Click to Stop`;
+          statusBarItem.tooltip = voiceEditTarget
+            ? "Say how the selection should be edited"
+            : translateDictation
+            ? `Recording in progress - the dictation will be translated into ${describeLanguage(getTranslationOptions().targetLanguage)}`
+            : "Recording in progress";
+        }
+      }
       statusBarItem.command = "whisperdictation.stopDictation";
-      statusBarItem.tooltip = "Recording in progress";
       break;
     case RecordingState.Processing:
-      statusBarItem.text = "$(sync~spin) Processing... Click to Cancel";
+      if (streamingSession && streamingSession.pending > 0) {
+        processingDetail = `${streamingSession.pending} pending chunk(s)`;
+      }
+      statusBarItem.text = processingDetail
+        ? `$(sync~spin) Processing ${processingDetail}... Click to Cancel`
+        : "$(sync~spin) Processing... Click to Cancel";
       statusBarItem.command = "whisperdictation.cancelProcessing";
       statusBarItem.tooltip = "Transcribing audio... Click to cancel";
       break;
   }
 }
 
+// Show whether dictation is inserted as prose or as code
+function updateTextModeStatusBar() {
+  if (!textModeStatusBarItem) {
+    return;
+  }
+
+  if (getTextMode() === TextMode.Code) {
+    textModeStatusBarItem.text = "$(code) Code";
+    textModeStatusBarItem.tooltip = "Dictation is formatted as code - click to change";
+  } else {
+    textModeStatusBarItem.text = "$(book) Prose";
+    textModeStatusBarItem.tooltip = "Dictation is inserted as prose - click to change";
+  }
+}
+
+// Show the language for the active file, or the last detected one when it is automatic
+function updateLanguageStatusBar() {
+  if (!languageStatusBarItem) {
+    return;
+  }
+
+  const { code, rule } = resolveDictationLanguage(vscode.window.activeTextEditor?.document);
+  const source = rule ? `the rule "${rule}"` : "whisperdictation.language";
+  if (code) {
+    languageStatusBarItem.text = `$(globe) ${formatLanguage(code)}`;
+    languageStatusBarItem.tooltip = `Dictation language ${code} from ${source} - click to switch between your most used languages`;
+  } else {
+    languageStatusBarItem.text = lastDetectedLanguage ? `$(globe) Auto (${formatLanguage(lastDetectedLanguage)})` : "$(globe) Auto";
+    languageStatusBarItem.tooltip =
+      `Dictation language is detected automatically (${source})` +
+      (lastDetectedLanguage ? `, last detected: ${lastDetectedLanguage}` : "") +
+      " - click to switch between your most used languages";
+  }
+}
+
+async function selectTextMode() {
+  const current = getTextMode();
+  const selected = await vscode.window.showQuickPick(
+    [
+      {
+        label: "$(book) Prose",
+        description: current === TextMode.Prose ? "current" : undefined,
+        detail: "Insert the transcript as written text (spoken commands apply if enabled)",
+        mode: TextMode.Prose,
+      },
+      {
+        label: "$(code) Code",
+        description: current === TextMode.Code ? "current" : undefined,
+        detail: "Format identifiers for the current language and turn spoken operators into symbols",
+        mode: TextMode.Code,
+      },
+    ],
+    { placeHolder: "Select how dictated text is inserted" }
+  );
+
+  if (selected) {
+    await vscode.workspace.getConfiguration("whisperdictation").update("textMode", selected.mode, vscode.ConfigurationTarget.Global);
+    log(`Text mode changed to: ${selected.mode}`);
+  }
+}
+
+// Switch whisperdictation.language between the two languages dictated in most often
+async function toggleLanguage() {
+  const [first, second] = languageUsage?.mostUsed(2) ?? [];
+  if (!second) {
+    vscode.window.showInformationMessage(
+      "Dictate in two languages first, then this switches between them. Set whisperdictation.language to choose a language now."
+    );
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const next = config.get<string>("language") === first ? second : first;
+  await config.update("language", next, vscode.ConfigurationTarget.Global);
+  log(`Dictation language changed to: ${next}`);
+
+  const { rule } = resolveDictationLanguage(vscode.window.activeTextEditor?.document);
+  if (rule) {
+    vscode.window.showInformationMessage(`Dictation language set to ${next}, but the rule "${rule}" still applies to this file.`);
+  }
+}
+
+async function selectMicrophone() {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const current = (config.get<string>("inputDevice") ?? "").trim();
+
+  const devices = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Listing microphones..." },
+    () => listAudioDevices()
+  );
+  const items = [
+    {
+      label: "$(mic) System Default",
+      description: current === "" ? "current" : undefined,
+      detail: "Follow the operating system's default input device",
+      id: "",
+    },
+    ...devices.map((device) => ({
+      label: device.name,
+      description: [device.id === current ? "current" : undefined, device.isDefault ? "system default" : undefined]
+        .filter((part) => part)
+        .join(", "),
+      detail: `${device.soxType} ${device.soxDevice}`,
+      id: device.id,
+    })),
+  ];
+  if (devices.length === 0) {
+    log("No capture devices found, only the system default is available");
+  }
+
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: "Select the microphone to record from" });
+  if (selected) {
+    await config.update("inputDevice", selected.id, vscode.ConfigurationTarget.Global);
+    log(`Input device changed to: ${selected.id || "system default"}`);
+  }
+}
+
 // Get debug directory based on OS
 function getDebugDirectory(): string {
   const platform = os.platform();
@@ -307,47 +562,35 @@ function getDebugDirectory(): string {
 // Update the startRecording function to verify SoX first
 async function startRecording(context: vscode.ExtensionContext): Promise<void> {
   try {
-    // Verify SoX installation first
+    // Verify SoX installation first; the mode set by the command must not carry over to the next dictation
     if (!(await verifySoxInstallation())) {
+      resetDictationMode();
       return;
     }
 
-    // Create a temporary file for the recording
-    tempFilePath = path.join(os.tmpdir(), `recording-${Date.now()}.wav`);
-    log(`Recording to temporary file: ${tempFilePath}`);
+    // Live and realtime dictation stream PCM to stdout instead of writing a file
+    if (currentDictationMode === DictationMode.Live || currentDictationMode === DictationMode.Realtime) {
+      tempFilePath = undefined;
+      const started =
+        currentDictationMode === DictationMode.Live ? await startLiveSession(context) : await startRealtimeSession(context);
+      if (!started) {
+        resetRecordingState();
+        return;
+      }
+    } else {
+      // Create a temporary file for the recording
+      tempFilePath = path.join(os.tmpdir(), `recording-${Date.now()}.wav`);
+      log(`Recording to temporary file: ${tempFilePath}`);
+    }
 
     // Build the exact command we know works
     const soxPath = getSoxPath();
-    const platform = os.platform();
+    audioSource = createAudioSource(replayFile);
+    log(`Recording from ${audioSource.description}`);
 
     // Format options must come before input/output files
-    const args = [
-      // Format options for input
-      "-c",
-      "1", // Mono channel
-      "-r",
-      "16000", // 16kHz sample rate (Whisper requirement)
-      "-b",
-      "16", // 16-bit depth
-      "-e",
-      "signed-integer",
-      // Input specification
-      "-t",
-    ];
-    
-    // Platform-specific input type
-    if (platform === "win32") {
-      args.push("waveaudio");
-      args.push("default");
-    } else if (platform === "darwin") {
-      args.push("coreaudio");
-      args.push("default");
-    } else if (platform === "linux") {
-      // On Linux, use alsa which is the standard audio driver
-      args.push("alsa");
-      args.push("default");
-    }
-    
+    const args = await audioSource.prepare();
+
     // Add the rest of the arguments
     args.push(
       // Buffer size (smaller for more frequent writes)
@@ -356,13 +599,24 @@ async function startRecording(context: vscode.ExtensionContext): Promise<void> {
       // reduce logging to errors, supress audio meter
       "-V2",
       "-q",
-      // Output format - WAV with minimal header
-      "-t",
-      "wav",
-      // Output file
-      tempFilePath.replace(/\\/g, "/"), // Convert Windows path separators
     );
 
+    if (tempFilePath) {
+      args.push(
+        // Output format - WAV with minimal header
+        "-t",
+        "wav",
+        // Output file
+        tempFilePath.replace(/\\/g, "/"), // Convert Windows path separators
+      );
+    } else if (streamingSession instanceof RealtimeDictationSession) {
+      // Output format - raw 24kHz PCM on stdout for the realtime API
+      args.push("-r", String(REALTIME_SAMPLE_RATE), "-t", "raw", "-");
+    } else {
+      // Output format - raw PCM on stdout for live dictation
+      args.push("-t", "raw", "-");
+    }
+
     //log(`Spawning process with args: ${JSON.stringify(args, null, 2)}`);
     log(`Full command that would be executed: ${soxPath} ${args.join(" ")}`);
 
@@ -375,12 +629,18 @@ async function startRecording(context: vscode.ExtensionContext): Promise<void> {
       },
     });
 
-    if (!recordingProcess || !recordingProcess.stdout || !recordingProcess.stderr) {
+    if (!recordingProcess || !recordingProcess.stdin || !recordingProcess.stdout || !recordingProcess.stderr) {
       throw new Error("Failed to start recording process");
     }
+    audioSource.start(recordingProcess.stdin);
 
-    recordingProcess.stdout.on("data", (data) => {
-      log(`Recording stdout: ${data}`);
+    recordingProcess.stdout.on("data", (data: Buffer) => {
+      if (streamingSession) {
+        recordingMonitor?.feed(data);
+        streamingSession.write(data);
+      } else {
+        log(`Recording stdout: ${data}`);
+      }
     });
 
     recordingProcess.stderr.on("data", (data) => {
@@ -405,11 +665,16 @@ async function startRecording(context: vscode.ExtensionContext): Promise<void> {
         log("Recording process closed unexpectedly", true);
         stopRecording();
         vscode.window.showErrorMessage("Recording stopped unexpectedly");
+      } else if (code === 0 && currentState === RecordingState.Recording && audioSource?.kind !== AudioSourceKind.Microphone) {
+        // A replayed file or a pipe has no more audio
+        log("Audio source ended, stopping");
+        void stopRecording();
       }
     });
 
     // Update state
     currentState = RecordingState.Recording;
+    startRecordingTimer();
     updateStatusBarState();
     log("Recording started successfully");
   } catch (error) {
@@ -417,53 +682,13 @@ async function startRecording(context: vscode.ExtensionContext): Promise<void> {
     if (error instanceof Error) {
       log(`Error stack trace: ${error.stack}`, true);
     }
-    stopRecording();
-    vscode.window.showErrorMessage("Failed to start recording. Please try again.");
+    resetRecordingState();
+    vscode.window.showErrorMessage(
+      error instanceof Error ? `Failed to start recording: ${error.message}` : "Failed to start recording. Please try again."
+    );
   }
 }
 
-async function convertToOgg(inputPath: string): Promise<string> {
-  const outputPath = inputPath.replace(/\.wav$/, ".ogg");
-  const soxPath = getSoxPath();
-
-  log(`Starting WAV to OGG conversion...`);
-  const startTime = Date.now();
-
-  return new Promise<string>((resolve, reject) => {
-    const conversionProcess = spawn(soxPath, [
-      inputPath,
-      "-t",
-      "ogg",
-      // High quality compression
-      "-C",
-      "4",
-      outputPath,
-    ]);
-
-    conversionProcess.stderr.on("data", (data) => {
-      log(`Conversion stderr: ${data}`);
-    });
-
-    conversionProcess.on("close", (code) => {
-      const endTime = Date.now();
-      const duration = endTime - startTime;
-
-      if (code === 0) {
-        log(`Conversion completed in ${duration}ms`);
-        resolve(outputPath);
-      } else {
-        log(`Conversion failed with code ${code}`, true);
-        reject(new Error(`Conversion failed with code ${code}`));
-      }
-    });
-
-    conversionProcess.on("error", (error) => {
-      log(`Conversion process error: ${error}`, true);
-      reject(error);
-    });
-  });
-}
-
 async function stopRecording() {
   try {
     log("Stopping recording process...");
@@ -476,6 +701,8 @@ async function stopRecording() {
 
     // Set state to processing to prevent multiple transcription attempts
     currentState = RecordingState.Processing;
+    const recordedSeconds = recordingMonitor?.elapsedSeconds ?? 0;
+    stopRecordingTimer();
     updateStatusBarState();
 
     // Short wait to allow final buffer writes
@@ -496,41 +723,80 @@ async function stopRecording() {
       }
       recordingProcess = undefined;
     }
+    disposeAudioSource();
+
+    // Live and realtime dictation have already transcribed most of the audio, just flush the rest
+    if (streamingSession) {
+      // Realtime audio is streamed over a WebSocket instead of through a backend, so its usage is recorded here
+      if (streamingSession instanceof RealtimeDictationSession && streamingBackend) {
+        usageTracker?.record(BackendId.OpenAI, streamingBackend.model, recordedSeconds, vscode.workspace.name ?? "(no workspace)");
+      }
+      await finishStreamingSession();
+      return;
+    }
 
     // Check if we have a valid recording
     if (tempFilePath && fs.existsSync(tempFilePath)) {
-      const initialStats = fs.statSync(tempFilePath);
+      let recordingPath = tempFilePath;
+      const initialStats = fs.statSync(recordingPath);
       log(`Initial WAV file size: ${initialStats.size} bytes`);
 
-      let fileToTranscribe = tempFilePath;
+      // Resolve the backend first so the upload policy matches what it accepts
+      const backend = await resolveBackend(extensionContext, dictationOptions?.model);
+      if (isRecordingCancelled(recordingPath)) {
+        return;
+      }
+      if (!backend) {
+        fs.unlinkSync(recordingPath);
+        resetRecordingState();
+        return;
+      }
+
+      // Clean up the audio with SoX effects before anything is uploaded
+      const preprocessing = getPreprocessingOptions();
+      if (preprocessing) {
+        const processedPath = await preprocessForUpload(recordingPath, preprocessing, backend);
+        if (isRecordingCancelled(recordingPath, processedPath)) {
+          return;
+        }
+        if (processedPath !== recordingPath) {
+          fs.unlinkSync(recordingPath);
+          recordingPath = tempFilePath = processedPath;
+        }
+      }
+
+      let fileToTranscribe = recordingPath;
 
-      // Check if we need to convert to OGG
-      if (initialStats.size > MAX_FILE_SIZE_BYTES) {
-        log(`File size ${initialStats.size} bytes exceeds ${MAX_FILE_SIZE_BYTES} bytes, converting to OGG...`);
+      // Long recordings are split into segments later, each of which is encoded on its own
+      const segmentation = getSegmentationOptions();
+      const segmented = shouldSegment(recordingPath, segmentation);
+
+      // Encode as whisperdictation.uploadFormat and check the result against the backend's size limit
+      if (!segmented) {
         try {
-          const oggPath = await convertToOgg(tempFilePath);
-          const oggStats = fs.statSync(oggPath);
-          log(`Converted OGG file size: ${oggStats.size} bytes (${Math.round((oggStats.size / initialStats.size) * 100)}% of original)`);
-
-          // Clean up the original WAV file
-          fs.unlinkSync(tempFilePath);
-          log("Original WAV file cleaned up");
-
-          // Check if the OGG file is still too large
-          if (oggStats.size > MAX_FINAL_SIZE_BYTES) {
-            log("Converted file still exceeds maximum size limit", true);
-            fs.unlinkSync(oggPath);
-            vscode.window.showErrorMessage("Recording too large even after compression. Please try a shorter recording.");
-            resetRecordingState();
+          const uploadPath = await prepareUpload(recordingPath, backend);
+          if (isRecordingCancelled(recordingPath, uploadPath)) {
             return;
           }
+          if (uploadPath !== recordingPath) {
+            // Clean up the original WAV file
+            fs.unlinkSync(recordingPath);
+            log("Original WAV file cleaned up");
 
-          fileToTranscribe = oggPath;
-          tempFilePath = oggPath; // Update tempFilePath to point to OGG file
+            fileToTranscribe = uploadPath;
+            tempFilePath = uploadPath; // Update tempFilePath to point to the encoded file
+          }
         } catch (error) {
-          log(`Error during conversion: ${error}`, true);
-          fs.unlinkSync(tempFilePath);
-          vscode.window.showErrorMessage("Error converting audio file. Please try again.");
+          if (isRecordingCancelled(recordingPath)) {
+            return;
+          }
+          log(`Error preparing the upload: ${error}`, true);
+          fs.rmSync(recordingPath, { force: true });
+          vscode.window.showErrorMessage(
+            error instanceof UploadTooLargeError
+              ? "Recording too large even after compression. Please try a shorter recording."
+              : "Error converting audio file. Please try again."
+          );
           resetRecordingState();
           return;
         }
@@ -540,7 +806,7 @@ async function stopRecording() {
         const finalStats = fs.statSync(fileToTranscribe);
         if (finalStats.size > 0) {
           log("Valid recording file found, proceeding with transcription");
-          await transcribeRecording(fileToTranscribe, extensionContext);
+          await transcribeRecording(fileToTranscribe, backend);
         } else {
           log("Recording file is empty", true);
           fs.unlinkSync(fileToTranscribe);
@@ -561,160 +827,527 @@ async function stopRecording() {
   }
 }
 
-async function transcribeRecording(filePath: string, context: vscode.ExtensionContext): Promise<void> {
+// Whether "Cancel Processing" took the recording while the upload was prepared. The cancel command has already queued
+// the recording and reset the state, so only a derived file, e.g. the encoded copy, is left to delete.
+function isRecordingCancelled(recordingPath: string, derivedPath?: string): boolean {
+  if (tempFilePath === recordingPath) {
+    return false;
+  }
+  if (derivedPath && derivedPath !== recordingPath) {
+    fs.rmSync(derivedPath, { force: true });
+  }
+  log("Transcription was cancelled while the upload was prepared");
+  return true;
+}
+
+// Run the preprocessing chain and log how much audio, and money, it saved; the original is sent when it fails
+async function preprocessForUpload(filePath: string, options: PreprocessingOptions, backend: TranscriptionBackend): Promise<string> {
   try {
-    if (!fs.existsSync(filePath)) {
-      log(`Recording file not found: ${filePath}`);
-      vscode.window.showErrorMessage("Recording file not found.");
-      resetRecordingState();
-      return;
+    const result = await preprocessRecording(filePath, options, extensionContext.globalStorageUri.fsPath);
+    if (result.filePath === filePath) {
+      return filePath;
     }
 
-    log("Processing recording...");
-    currentState = RecordingState.Processing;
-    updateStatusBarState();
+    const savedSeconds = Math.max(0, result.originalSeconds - result.processedSeconds);
+    const savedPercent = result.originalSeconds > 0 ? Math.round((savedSeconds / result.originalSeconds) * 100) : 0;
+    const savedUsd = (savedSeconds / 60) * getPricePerMinute(backend.id, backend.model, getUsageOptions());
+    log(
+      `Preprocessing shortened the recording from ${result.originalSeconds.toFixed(1)}s to ${result.processedSeconds.toFixed(1)}s, ` +
+        `saving ${savedSeconds.toFixed(1)}s (${savedPercent}%)${savedUsd > 0 ? `, about ${formatUsd(savedUsd)}` : ""}`
+    );
+    return result.filePath;
+  } catch (error) {
+    log(`Preprocessing failed, sending the original recording: ${error}`, true);
+    return filePath;
+  }
+}
 
-    // Get the OpenAI API key from the extension's secrets
-    let apiKey = await context.secrets.get(OPENAI_API_KEY_SECRET);
-    if (!apiKey) {
-      log("OpenAI API key not found");
-      const keyUpdated = await promptForApiKey();
-      if (!keyUpdated) {
-        log("No API key provided by user");
-        vscode.window.showErrorMessage('OpenAI API key not found. Please set it using the "Set OpenAI API Key" command.');
-        resetRecordingState();
-        return;
-      }
+// Record room tone from the configured audio source for noise reduction
+async function calibrateNoise() {
+  if (currentState !== RecordingState.Idle) {
+    vscode.window.showWarningMessage("Stop the dictation before calibrating the noise profile.");
+    return;
+  }
+  const action = await vscode.window.showInformationMessage(
+    `Stay quiet for ${NOISE_CALIBRATION_SECONDS} seconds while the background noise is recorded.`,
+    "Start"
+  );
+  if (action !== "Start" || !(await verifySoxInstallation())) {
+    return;
+  }
 
-      // Re-fetch after user updates the key
-      apiKey = await context.secrets.get(OPENAI_API_KEY_SECRET);
-      if (!apiKey) {
-        log("OpenAI API key still not found after update", true);
-        vscode.window.showErrorMessage("OpenAI API key not found after update. Please try again.");
-        resetRecordingState();
-        return;
-      }
-    }
+  let source: AudioSource | undefined;
+  try {
+    source = createAudioSource();
+    const noiseSource = source;
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: "Recording background noise..." }, () =>
+      recordNoiseProfile(noiseSource, extensionContext.globalStorageUri.fsPath, NOISE_CALIBRATION_SECONDS)
+    );
+    const enabled = getPreprocessingOptions();
+    vscode.window.showInformationMessage(
+      enabled && enabled.noiseReduction > 0
+        ? "Noise profile saved. It is used for the next dictation."
+        : "Noise profile saved. Enable whisperdictation.preprocessing.enabled and set whisperdictation.preprocessing.noiseReduction to use it."
+    );
+  } catch (error) {
+    log(`Error calibrating noise: ${error}`, true);
+    vscode.window.showErrorMessage(`Could not record the background noise: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    source?.dispose();
+  }
+}
 
-    // Get configuration settings
-    const config = vscode.workspace.getConfiguration("whisperdictation");
-    const language = config.get<string>("language") || "en";
-    const selectedModel = config.get<string>("transcriptionModel") || "gpt-4o-mini-transcribe";
-    const useSystemPrompts = config.get<boolean>("useSystemPrompts") ?? true;
-    const shouldSaveDebug = config.get<boolean>("saveDebugFiles") || false;
-    
-    log(`Using language: ${language}`);
-    log(`Using transcription model: ${selectedModel}`);
-    log(`System prompts enabled: ${useSystemPrompts}`);
+// Prepare a live dictation session that inserts at the active editor's cursor
+async function startLiveSession(context: vscode.ExtensionContext): Promise<boolean> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("Live dictation needs an active text editor.");
+    return false;
+  }
 
-    // Create OpenAI client
-    const openai = createOpenAIClient(apiKey);
-    log("OpenAI client initialized");
+  const backend = await resolveBackend(context, dictationOptions?.model);
+  if (!backend) {
+    return false;
+  }
 
-    // Create abort controller for this transcription
-    transcriptionAbortController = new AbortController();
+  const language = getDictationLanguage(editor.document).code || undefined;
+
+  streamingSession = new LiveDictationSession(
+    backend,
+    {
+      ...getLiveDictationOptions(),
+      language,
+      prompt: (await buildTranscriptionPrompt(backend.model)).prompt,
+    },
+    editor.document,
+    editor.selection.active,
+    () => updateStatusBarState()
+  );
+  streamingBackend = { id: backend.id, model: backend.model };
+  log(`Live dictation started with ${backend.displayName} backend`);
+  return true;
+}
 
-    let debugFilePath: string | undefined;
+// Prepare a realtime transcription session over WebSocket that inserts at the active editor's cursor
+async function startRealtimeSession(context: vscode.ExtensionContext): Promise<boolean> {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    vscode.window.showErrorMessage("Realtime dictation needs an active text editor.");
+    return false;
+  }
 
-    if (shouldSaveDebug) {
-      // Create debug directory if it doesn't exist
-      const debugDir = getDebugDirectory();
-      if (!fs.existsSync(debugDir)) {
-        log(`Creating debug directory: ${debugDir}`);
-        fs.mkdirSync(debugDir, { recursive: true });
-      }
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const model = dictationOptions?.model || config.get<string>("transcriptionModel") || "gpt-4o-mini-transcribe";
+  if (getConfiguredBackendId() !== BackendId.OpenAI || !REALTIME_MODELS.includes(model)) {
+    vscode.window.showErrorMessage("Realtime dictation requires the OpenAI backend with gpt-4o-transcribe or gpt-4o-mini-transcribe.");
+    return false;
+  }
 
-      // Create debug file path with local timestamp
-      const now = new Date();
-      const timestamp = now.toLocaleString("sv").replace(/[\s:]/g, "-"); // Use Swedish locale for YYYY-MM-DD HH-mm-ss format
-      const fileExt = path.extname(filePath); // Get the actual file extension (.wav or .ogg)
-      debugFilePath = path.join(debugDir, `dictation-${timestamp}${fileExt}`);
+  try {
+    usageTracker?.checkBudget(BackendId.OpenAI, model);
+  } catch (error) {
+    vscode.window.showErrorMessage(error instanceof Error ? error.message : String(error));
+    return false;
+  }
 
-      // Copy the final audio file (either WAV or OGG)
-      fs.copyFileSync(filePath, debugFilePath);
-      log(`Debug file copied to: ${debugFilePath}`);
-    }
+  // The realtime WebSocket authenticates with a bearer token against an OpenAI-style endpoint
+  const profile = getActiveProfile();
+  if (profile.type === ProviderType.Azure || profile.auth !== AuthScheme.Bearer) {
+    vscode.window.showErrorMessage(`Realtime dictation is not available with the provider profile "${profile.name}".`);
+    return false;
+  }
 
-    // Read the audio file and check its size
-    const stats = fs.statSync(filePath);
-    log(`Audio file size before upload: ${stats.size} bytes`);
-    const audioData = fs.createReadStream(filePath);
-    log("Audio file stream created");
+  const apiKey = await getApiKey(context, profile);
+  if (apiKey === undefined) {
+    return false;
+  }
 
-    log("Starting transcription request to OpenAI...");
-    
-    // Prepare transcription options
-    const transcriptionOptions: OpenAI.Audio.Transcriptions.TranscriptionCreateParams = {
-      file: audioData,
-      model: selectedModel,
-      language: language,
-      response_format: "text", // Ensures plain text output
-    };
+  const language = getDictationLanguage(editor.document).code || undefined;
+  const { prompt } = await buildTranscriptionPrompt(model);
 
-    // Add system prompt if enabled
-    if (useSystemPrompts) {
-      const systemPrompt = getSystemPrompt(selectedModel);
-      transcriptionOptions.prompt = systemPrompt;
-      log(`Using system prompt for ${selectedModel}: ${systemPrompt}`);
-    }
-    
-    // Add abort signal to the request
-    const transcription = await openai.audio.transcriptions.create(transcriptionOptions, {
-      signal: transcriptionAbortController?.signal
-    });
-    log("Transcription received from OpenAI");
-    
-    // Handle response based on format - when response_format is "text", we get a string directly
-    const transcriptionText = typeof transcription === 'string' ? transcription : transcription.text;
-    log(`Transcription length: ${transcriptionText.length} characters`);
+  try {
+    streamingSession = await RealtimeDictationSession.start(
+      {
+        apiKey,
+        baseUrl: profile.baseUrl,
+        model: mapModel(profile, model),
+        language,
+        prompt,
+        silenceDurationMs: getLiveDictationOptions().pauseMilliseconds,
+      },
+      editor.document,
+      editor.selection.active,
+      () => updateStatusBarState(),
+      () => {
+        log("Realtime transcription connection closed during recording", true);
+        vscode.window.showErrorMessage("The realtime transcription connection was closed. The text received so far was kept.");
+        void stopRecording();
+      }
+    );
+  } catch (error) {
+    log(`Error connecting realtime session: ${error}`, true);
+    vscode.window.showErrorMessage(`Could not start realtime dictation: ${error instanceof Error ? error.message : error}`);
+    return false;
+  }
 
-    // Copy to clipboard
-    await vscode.env.clipboard.writeText(transcriptionText);
-    log("Transcription copied to clipboard");
+  streamingBackend = { id: BackendId.OpenAI, model };
+  log(`Realtime dictation started with ${model}`);
+  return true;
+}
 
-    // Only proceed with pasting if we're in normal mode
-    if (currentDictationMode === DictationMode.Normal) {
-      // Try to detect the active editor's content before paste
-      const editor = vscode.window.activeTextEditor;
-      let beforeText = "";
-      let beforePosition: vscode.Position | undefined;
+async function finishStreamingSession() {
+  const session = streamingSession;
+  if (!session) {
+    return;
+  }
 
-      if (editor) {
-        beforeText = editor.document.getText();
-        beforePosition = editor.selection.active;
-      }
+  try {
+    updateStatusBarState();
+    const text = await session.finish();
+    log(`Streaming dictation finished, ${text.length} characters inserted`);
+    dictationResult = text;
+    if (streamingBackend) {
+      fireTranscribed({ text, source: "dictation", backend: streamingBackend.id, model: streamingBackend.model });
+    }
+  } catch (error) {
+    log(`Error finishing streaming dictation: ${error}`, true);
+    vscode.window.showErrorMessage(`Dictation failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    resetRecordingState();
+  }
+}
 
-      // Try clipboard paste first
-      try {
-        await vscode.commands.executeCommand("editor.action.clipboardPasteAction");
-        log("Transcription inserted using clipboard paste");
-      } catch (error) {
-        log(`Clipboard paste failed: ${error}`, true);
-        // If paste command fails and we have an editor, try direct insertion
-        if (editor) {
-          await editor.edit((editBuilder) => {
-            if (editor.selection.isEmpty) {
-              editBuilder.insert(editor.selection.active, transcriptionText);
-            } else {
-              editBuilder.replace(editor.selection, transcriptionText);
-            }
-          });
-          log("Inserted text using editor API after paste failed");
-        } else {
-          // Both methods failed, show clipboard message
-          log("No active editor and clipboard paste failed", true);
-          vscode.window.showInformationMessage("Text copied to clipboard - press Ctrl+V/Cmd+V to paste");
+// The API key of a profile, prompting for it when missing; "" for profiles without authentication
+async function getApiKey(context: vscode.ExtensionContext, profile: ProviderProfile = getActiveProfile()): Promise<string | undefined> {
+  if (profile.auth === AuthScheme.None) {
+    return "";
+  }
+
+  let apiKey = await context.secrets.get(getProfileSecretKey(profile));
+  if (!apiKey) {
+    log(`API key of provider profile "${profile.name}" not found`);
+    const keyUpdated = await promptForApiKey(profile);
+    if (!keyUpdated) {
+      log("No API key provided by user");
+      vscode.window.showErrorMessage('OpenAI API key not found. Please set it using the "Set OpenAI API Key" command.');
+      return undefined;
+    }
+
+    // Re-fetch after user updates the key
+    apiKey = await context.secrets.get(getProfileSecretKey(profile));
+    if (!apiKey) {
+      log("OpenAI API key still not found after update", true);
+      vscode.window.showErrorMessage("OpenAI API key not found after update. Please try again.");
+      return undefined;
+    }
+  }
+  return apiKey;
+}
+
+// Create the transcription backend selected in the settings, optionally with another model
+async function resolveBackend(context: vscode.ExtensionContext, model?: string): Promise<TranscriptionBackend | undefined> {
+  const backendId = getConfiguredBackendId();
+  log(`Using transcription backend: ${backendId}`);
+
+  if (backendId !== BackendId.OpenAI) {
+    return meterUsage(createBackend(backendId, undefined, model));
+  }
+
+  const apiKey = await getApiKey(context);
+  if (apiKey === undefined) {
+    return undefined;
+  }
+
+  // Create OpenAI client
+  openai = createOpenAIClient(apiKey);
+  log("OpenAI client initialized");
+  const backend = createBackend(backendId, openai, model);
+  const fallbackProfile = getFallbackProfile();
+  return meterUsage(fallbackProfile ? withFallback(backend, () => createFallbackBackend(fallbackProfile, backend.model)) : backend);
+}
+
+// Backend of the fallback profile; it is only used when its key is already stored, so a failing request never prompts
+async function createFallbackBackend(profile: ProviderProfile, model: string): Promise<TranscriptionBackend | undefined> {
+  const apiKey = await getStoredApiKey(profile);
+  if (apiKey === undefined) {
+    log(`No API key stored for fallback provider profile "${profile.name}"`, true);
+    return undefined;
+  }
+  return createBackend(BackendId.OpenAI, createOpenAIClient(apiKey, profile), model);
+}
+
+// Record the audio length of every request for the usage report and budget
+function meterUsage(backend: TranscriptionBackend): TranscriptionBackend {
+  return usageTracker ? usageTracker.meter(backend, vscode.workspace.name ?? "(no workspace)") : backend;
+}
+
+// Transcribe an audio file with the prompt for the backend's model, in segments when it is long
+async function transcribeAudioFile(
+  backend: TranscriptionBackend,
+  filePath: string,
+  language: string | undefined,
+  signal?: AbortSignal,
+  onSegmentProgress?: (completed: number, total: number) => void,
+  onDetectedLanguage?: (language: string) => void
+): Promise<string> {
+  // Add system prompt and workspace vocabulary if enabled
+  const { prompt } = await buildTranscriptionPrompt(backend.model);
+  if (prompt) {
+    // Only the length: the prompt can hold vocabulary and context from the user's documents
+    log(`Using a prompt of ${prompt.length} characters for ${backend.model}`);
+  }
+
+  const request: TranscriptionRequest = { filePath, language, prompt, signal, onDetectedLanguage };
+
+  // Split long recordings at silences instead of failing on the upload limit
+  const segmentation = getSegmentationOptions();
+  if (segmentation && shouldSegment(filePath, segmentation)) {
+    log("Recording exceeds the segment length, transcribing in segments");
+    return transcribeInSegments(
+      backend,
+      request,
+      { ...segmentation, encodeUpload: (wavPath) => prepareUpload(wavPath, backend) },
+      onSegmentProgress
+    );
+  }
+  return backend.transcribe(request);
+}
+
+// Cancellation by an abort signal, from the OpenAI SDK, fetch or the extension's own backends
+function isAbortError(error: unknown): boolean {
+  return error instanceof OpenAI.APIUserAbortError || (error instanceof Error && error.name === "AbortError");
+}
+
+async function transcribeRecording(filePath: string, backend: TranscriptionBackend): Promise<void> {
+  // Once the audio is transcribed, later failures (translation, rewrite, insertion) must not queue it to be paid for again
+  let transcribed = false;
+  try {
+    if (!fs.existsSync(filePath)) {
+      log(`Recording file not found: ${filePath}`);
+      vscode.window.showErrorMessage("Recording file not found.");
+      resetRecordingState();
+      return;
+    }
+
+    log("Processing recording...");
+    currentState = RecordingState.Processing;
+    updateStatusBarState();
+
+    // Remember where the text should go, so it is not inserted elsewhere if that changes meanwhile
+    const insertionTarget = captureInsertionTarget();
+
+    // Get configuration settings
+    const config = vscode.workspace.getConfiguration("whisperdictation");
+    // Rules for the target file take precedence; an empty language lets the model detect it
+    const dictationLanguage = getDictationLanguage(insertionTarget?.editor.document);
+    const language = dictationLanguage.code;
+    let detectedLanguage: string | undefined;
+    const translation = translateDictation ? getTranslationOptions() : undefined;
+    const useSystemPrompts = config.get<boolean>("useSystemPrompts") ?? true;
+    const shouldSaveDebug = config.get<boolean>("saveDebugFiles") || false;
+
+    log(`Using language: ${language || "automatic"}${dictationLanguage.rule ? ` (rule "${dictationLanguage.rule}")` : ""}`);
+    if (translation) {
+      log(`Translating from ${translation.sourceLanguage ?? "the detected language"} into ${translation.targetLanguage}`);
+    }
+    log(`Using transcription model: ${backend.model}`);
+    log(`System prompts enabled: ${useSystemPrompts}`);
+
+    // Create abort controller for this transcription
+    transcriptionAbortController = new AbortController();
+
+    let debugFilePath: string | undefined;
+
+    if (shouldSaveDebug) {
+      // Create debug directory if it doesn't exist
+      const debugDir = getDebugDirectory();
+      if (!fs.existsSync(debugDir)) {
+        log(`Creating debug directory: ${debugDir}`);
+        fs.mkdirSync(debugDir, { recursive: true });
+      }
+
+      // Create debug file path with local timestamp
+      const now = new Date();
+      const timestamp = now.toLocaleString("sv").replace(/[\s:]/g, "-"); // Use Swedish locale for YYYY-MM-DD HH-mm-ss format
+      const fileExt = path.extname(filePath); // Get the actual file extension (.wav or that of the upload format)
+      debugFilePath = path.join(debugDir, `dictation-${timestamp}${fileExt}`);
+
+      // Copy the final audio file (WAV or encoded)
+      fs.copyFileSync(filePath, debugFilePath);
+      log(`Debug file copied to: ${debugFilePath}`);
+    }
+
+    // Read the audio file and check its size
+    const stats = fs.statSync(filePath);
+    log(`Audio file size before upload: ${stats.size} bytes`);
+
+    // whisper-1 translates into English while transcribing, other models get a chat translation afterwards
+    const translateAudio = translation !== undefined && canTranslateAudio(backend, translation);
+    let transcriptionText = await transcribeAudioFile(
+      translateAudio ? asTranslatingBackend(backend) : backend,
+      filePath,
+      translation ? translation.sourceLanguage : language || undefined,
+      transcriptionAbortController?.signal,
+      (completed, total) => {
+        processingDetail = `segment ${Math.min(completed + 1, total)}/${total}`;
+        updateStatusBarState();
+      },
+      (reported) => {
+        detectedLanguage = detectedLanguage ?? toLanguageCode(reported);
+      }
+    );
+    transcribed = true;
+    log(`Transcription length: ${transcriptionText.length} characters`);
+    if (detectedLanguage) {
+      log(`Detected language: ${detectedLanguage}`);
+      lastDetectedLanguage = detectedLanguage;
+      updateLanguageStatusBar();
+    }
+    const spokenLanguage = (translation ? translation.sourceLanguage : language) || detectedLanguage;
+    if (spokenLanguage) {
+      void languageUsage?.record(spokenLanguage);
+    }
+    if (translation && !translateAudio && transcriptionText.trim()) {
+      transcriptionText = await applyTranslation(transcriptionText, translation);
+    }
+
+    // A voice edit uses the transcript as an instruction for the selection instead of inserting it
+    if (currentDictationMode === DictationMode.EditSelection && voiceEditTarget) {
+      await applyVoiceEdit(transcriptionText.trim(), voiceEditTarget);
+      return;
+    }
+
+    // A capture for another extension gets the plain transcript
+    if (currentDictationMode === DictationMode.Capture) {
+      dictationResult = transcriptionText;
+      fireTranscribed({
+        text: transcriptionText,
+        source: "capture",
+        backend: backend.id,
+        model: backend.model,
+        language: spokenLanguage,
+        durationSeconds: await getRecordingDuration(filePath),
+      });
+      return;
+    }
+
+    // Workspace-relative path of the file the text was inserted into, for the history
+    let targetFile: string | undefined;
+
+    // Turn spoken punctuation and editing commands into text and editor actions
+    let spokenCommands: SpokenCommandResult | undefined;
+    let codeText: string | undefined;
+    const grammar = getSpokenGrammar(translation ? translation.targetLanguage : spokenLanguage ?? "");
+    if (getTextMode() === TextMode.Code) {
+      // The naming style of the file the text is for, even if focus moved during transcription
+      const editor = insertionTarget?.editor;
+      const style = detectNamingStyle(editor?.document, editor?.selection.active);
+      codeText = transformToCode(transcriptionText, style);
+      log(`Code mode transform applied with ${style} naming`);
+    } else if (grammar) {
+      spokenCommands = applySpokenCommands(transcriptionText, grammar);
+      log(
+        `Spoken commands applied: ${spokenCommands.actionsBefore.length + spokenCommands.actionsAfter.length} action(s), ` +
+          `${spokenCommands.text.length} characters of text`
+      );
+    }
+    const rawText = codeText ?? (spokenCommands ? spokenCommands.text : transcriptionText);
+
+    // Optional chat-model rewrite of dictated prose
+    const rewriteOptions = codeText === undefined ? getRewriteOptions() : undefined;
+    const insertText = rewriteOptions && rawText ? await applyRewrite(rawText, rewriteOptions) : rawText;
+
+    // Only insert into the editor if we're in normal mode
+    if (currentDictationMode === DictationMode.Normal && dictationTarget && dictationTarget.kind !== DictationTargetKind.Editor) {
+      if (insertText && !(await deliverToTarget(insertText, dictationTarget))) {
+        await vscode.env.clipboard.writeText(insertText);
+        vscode.window.showWarningMessage(
+          dictationTarget.kind === DictationTargetKind.Terminal
+            ? "No terminal is open. The dictation was copied to the clipboard."
+            : "No Git repository is open. The dictation was copied to the clipboard."
+        );
+      }
+    } else if (currentDictationMode === DictationMode.Normal && insertionTarget && !isTargetUnchanged(insertionTarget)) {
+      // Do not guess where the text should go when the editor changed while transcribing
+      if (insertText) {
+        await vscode.env.clipboard.writeText(insertText);
+      }
+      log("Target editor changed or closed during transcription, dictation copied to clipboard", true);
+      vscode.window.showWarningMessage("The editor changed while the dictation was transcribed. The text was copied to the clipboard instead.");
+    } else if (currentDictationMode === DictationMode.Normal) {
+      const editor = insertionTarget?.editor;
+      targetFile = editor ? vscode.workspace.asRelativePath(editor.document.uri) : undefined;
+
+      if (spokenCommands) {
+        await runSpokenActions(spokenCommands.actionsBefore);
+      }
+
+      let beforePosition: vscode.Position | undefined;
+      if (editor) {
+        beforePosition = editor.selection.start;
+      }
+
+      // What actually goes into the document, remembered for swapping the rewrite
+      let insertedText = insertText;
+      let insertedRaw = rawText;
+      if (insertText) {
+        // Prose dictated into code goes into a comment when enabled
+        const commentOptions = codeText === undefined ? getCommentOptions() : undefined;
+        if (editor && commentOptions) {
+          const position = editor.selection.active;
+          insertedText = formatForCommentContext(insertText, editor.document, position, commentOptions);
+          // Wrapped the same way, so swapping in the raw transcript keeps the comment
+          insertedRaw = formatForCommentContext(rawText, editor.document, position, commentOptions);
         }
+        await insertDictation(insertedText, getInsertionStrategy(), editor);
+      }
+
+      // "Select that" selects the text that was just dictated
+      if (editor && beforePosition && spokenCommands?.actionsAfter.includes(SpokenAction.SelectThat)) {
+        editor.selection = new vscode.Selection(beforePosition, editor.selection.active);
+        log("Selected dictated text");
+      }
+
+      if (editor && beforePosition && insertText !== rawText) {
+        recordRewrite(editor.document, beforePosition, insertedRaw, insertedText);
       }
     } else {
-      // In clipboard-only mode, just show a notification
+      // In clipboard-only mode, just copy and show a notification
+      if (insertText) {
+        await vscode.env.clipboard.writeText(insertText);
+      }
       vscode.window.showInformationMessage("Dictation copied to clipboard");
       log("Dictation copied to clipboard (clipboard-only mode)");
     }
 
+    const durationSeconds = await getRecordingDuration(filePath);
+    dictationResult = insertText;
+    fireTranscribed({
+      text: insertText,
+      source: "dictation",
+      backend: backend.id,
+      model: backend.model,
+      language: translation ? translation.targetLanguage : spokenLanguage,
+      durationSeconds,
+    });
+
+    // Keep the dictation and its recording in the history view
+    dictationHistory?.add(
+      {
+        timestamp: Date.now(),
+        text: insertText,
+        backend: backend.id,
+        model: backend.model,
+        language: translation ? translation.targetLanguage : spokenLanguage ?? "",
+        durationSeconds,
+        targetFile,
+      },
+      filePath
+    );
+
     // Save transcription text if debug is enabled
     if (shouldSaveDebug && debugFilePath) {
-      fs.writeFileSync(debugFilePath.replace(/\.(wav|ogg)$/, "") + ".txt", transcriptionText);
+      fs.writeFileSync(debugFilePath.replace(/\.\w+$/, "") + ".txt", transcriptionText);
       log("Transcription saved to debug file");
     }
 
@@ -725,19 +1358,29 @@ async function transcribeRecording(filePath: string, context: vscode.ExtensionCo
       log(`Error stack trace: ${error.stack}`, true);
       
       // Check if this was an abort error
-      if (error.name === "AbortError" || error.message.includes("aborted")) {
+      if (isAbortError(error)) {
         log("Transcription was cancelled by user");
-        vscode.window.showInformationMessage("Transcription cancelled");
-        return; // Don't show error message for user-initiated cancellation
+        return; // The cancel command reports the cancellation
+      }
+
+      // Keep the recording so the dictation is not lost; voice edits and captures cannot be delivered later
+      const queued =
+        !transcribed && currentDictationMode !== DictationMode.EditSelection && currentDictationMode !== DictationMode.Capture
+          ? retryQueue?.enqueue(filePath, error, true)
+          : undefined;
+      if (queued?.autoRetry) {
+        vscode.window.showWarningMessage(`Transcription failed: ${error.message}. The recording was queued and will be retried automatically.`);
+        return;
       }
       
       // Check specifically for API key related errors
       const errorMessage = error.message;
       if (
-        errorMessage.includes("401") ||
-        errorMessage.toLowerCase().includes("api key") ||
-        errorMessage.toLowerCase().includes("unauthorized") ||
-        errorMessage.toLowerCase().includes("invalid")
+        backend.id === BackendId.OpenAI &&
+        (errorMessage.includes("401") ||
+          errorMessage.toLowerCase().includes("api key") ||
+          errorMessage.toLowerCase().includes("unauthorized") ||
+          errorMessage.toLowerCase().includes("invalid"))
       ) {
         log("API key validation failed, prompting for update", true);
         const response = await vscode.window.showErrorMessage(
@@ -748,7 +1391,9 @@ async function transcribeRecording(filePath: string, context: vscode.ExtensionCo
           await updateApiKey();
         }
       } else {
-        vscode.window.showErrorMessage(`Failed to process recording: ${error.message}`);
+        vscode.window.showErrorMessage(
+          `Failed to process recording: ${error.message}${queued ? " The recording was kept in the retry queue." : ""}`
+        );
       }
     } else {
       vscode.window.showErrorMessage("Failed to process recording. Please try again.");
@@ -831,10 +1476,11 @@ async function checkMicrophoneAccess(): Promise<boolean> {
 }
 
 // Update the activation function
-export async function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext): Promise<WhisperDictationApi | undefined> {
   try {
     // Create output channel first for logging
     outputChannel = vscode.window.createOutputChannel("WhisperDictation");
+    initLogger(outputChannel);
 
     log("Extension activation started");
     log(`Build time: ${BUILD_TIME}`);
@@ -874,39 +1520,115 @@ export async function activate(context: vscode.ExtensionContext) {
       throw error;
     }
 
-    // Check microphone access
-    const hasAccess = await checkMicrophoneAccess();
+    // Check microphone access; replayed files and pipes work without one, e.g. on CI machines
+    const hasAccess = getAudioSourceKind() !== AudioSourceKind.Microphone || (await checkMicrophoneAccess());
     if (!hasAccess) {
       log("Microphone access check failed", true);
       vscode.window.showErrorMessage("WhisperDictation requires microphone access. Please check your system permissions and try again.");
-      return;
+      return undefined;
     }
 
-    // Try to initialize OpenAI client with existing API key
-    const existingApiKey = await context.secrets.get(OPENAI_API_KEY_SECRET);
-    if (existingApiKey) {
+    // Try to initialize OpenAI client with the existing API key of the active profile
+    const existingApiKey = await getStoredApiKey(getActiveProfile());
+    if (existingApiKey !== undefined) {
       log("Found existing API key, initializing OpenAI client");
       openai = createOpenAIClient(existingApiKey);
     } else {
       log("No API key found, will prompt user when needed");
     }
 
+    // Dictation history lives in global storage so it is shared between windows
+    dictationHistory = new DictationHistory(context.globalStorageUri.fsPath);
+    context.subscriptions.push(
+      dictationHistory,
+      vscode.window.createTreeView("whisperdictation.history", {
+        treeDataProvider: new DictationHistoryProvider(dictationHistory),
+      })
+    );
+
+    usageTracker = new UsageTracker(context.globalStorageUri.fsPath);
+
+    // Failed recordings are retried in the background and listed in their own status bar item
+    retryQueue = new RetryQueue(context.globalStorageUri.fsPath, (entry, audioPath) => deliverQueuedRecording(entry, audioPath));
+    queueStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 98);
+    queueStatusBarItem.command = "whisperdictation.showRetryQueue";
+    context.subscriptions.push(retryQueue, queueStatusBarItem, retryQueue.onDidChange(() => updateQueueStatusBar()));
+    updateQueueStatusBar();
+    void offerOrphanRecovery();
+
     // Initialize status bar
     statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
     statusBarItem.text = "$(mic) Start Dictation";
     statusBarItem.command = "whisperdictation.startDictation";
     updateStatusBarState();
     statusBarItem.show();
+
+    textModeStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    textModeStatusBarItem.command = "whisperdictation.selectTextMode";
+    updateTextModeStatusBar();
+    textModeStatusBarItem.show();
+
+    languageUsage = new LanguageUsage(context.globalState);
+    languageStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
+    languageStatusBarItem.command = "whisperdictation.toggleLanguage";
+    updateLanguageStatusBar();
+    languageStatusBarItem.show();
     log("Status bar initialized");
 
     // Register commands
     context.subscriptions.push(
-      vscode.commands.registerCommand("whisperdictation.startDictation", async () => {
-        log("Start dictation command triggered");
+      vscode.commands.registerCommand("whisperdictation.startDictation", async (arg?: unknown) => {
+        log(`Start dictation command triggered${arg ? ` with ${JSON.stringify(arg)}` : ""}`);
+        if (currentState !== RecordingState.Idle) {
+          return undefined;
+        }
+        applyDictationOptions(arg && typeof arg === "object" ? (arg as DictationOptions) : {});
+        return runDictation(context);
+      }),
+      vscode.commands.registerCommand("whisperdictation.startTranslatedDictation", async () => {
+        log("Dictate and translate command triggered");
+        if (currentState === RecordingState.Idle) {
+          translateDictation = true;
+          await startRecording(context);
+        } else if (currentState === RecordingState.Recording && translateDictation) {
+          await stopRecording();
+        }
+      }),
+      vscode.commands.registerCommand("whisperdictation.startLiveDictation", async () => {
+        log("Start live dictation command triggered");
         if (currentState === RecordingState.Idle) {
+          currentDictationMode = DictationMode.Live;
           await startRecording(context);
         }
       }),
+      vscode.commands.registerCommand("whisperdictation.startRealtimeDictation", async () => {
+        log("Start realtime dictation command triggered");
+        if (currentState === RecordingState.Idle) {
+          currentDictationMode = DictationMode.Realtime;
+          await startRecording(context);
+        }
+      }),
+      vscode.commands.registerCommand("whisperdictation.dictateTo", async (arg?: unknown) => {
+        log(`Dictate to command triggered with ${JSON.stringify(arg)}`);
+        if (currentState === RecordingState.Idle) {
+          const target = parseDictationTarget(arg) ?? (await pickDictationTarget());
+          if (!target) {
+            return;
+          }
+          dictationTarget = target;
+          await startRecording(context);
+        } else if (currentState === RecordingState.Recording && dictationTarget) {
+          await stopRecording();
+        }
+      }),
+      vscode.commands.registerCommand("whisperdictation.editSelectionByVoice", async () => {
+        log("Edit selection by voice command triggered");
+        if (currentState === RecordingState.Idle) {
+          await startVoiceEdit(context);
+        } else if (currentState === RecordingState.Recording && currentDictationMode === DictationMode.EditSelection) {
+          await stopRecording();
+        }
+      }),
       vscode.commands.registerCommand("whisperdictation.stopDictation", async () => {
         log("Stop dictation command triggered");
         if (currentState === RecordingState.Recording) {
@@ -917,9 +1639,52 @@ export async function activate(context: vscode.ExtensionContext) {
         log("Cancel processing command triggered");
         if (currentState === RecordingState.Processing) {
           log("Cancelling transcription in progress");
+          // Keep the recording in case the cancel was accidental
+          const queued =
+            tempFilePath && fs.existsSync(tempFilePath) ? retryQueue?.enqueue(tempFilePath, new Error("Cancelled"), false) : undefined;
           resetRecordingState();
+          vscode.window.showInformationMessage(
+            queued ? "Transcription cancelled. The recording was kept in the retry queue." : "Transcription cancelled"
+          );
         }
       }),
+      vscode.commands.registerCommand("whisperdictation.selectMicrophone", async () => {
+        log("Select microphone command triggered");
+        await selectMicrophone();
+      }),
+      vscode.commands.registerCommand("whisperdictation.selectTextMode", async () => {
+        log("Select text mode command triggered");
+        await selectTextMode();
+      }),
+      vscode.commands.registerCommand("whisperdictation.selectRewritePreset", async () => {
+        log("Select rewrite preset command triggered");
+        await selectRewritePreset();
+      }),
+      vscode.commands.registerCommand("whisperdictation.swapRawTranscript", async () => {
+        log("Swap raw transcript command triggered");
+        await swapLastRewrite();
+      }),
+      vscode.commands.registerCommand("whisperdictation.showTranscriptionPrompt", async () => {
+        log("Show transcription prompt command triggered");
+        await showTranscriptionPrompt();
+      }),
+      vscode.commands.registerCommand("whisperdictation.showRetryQueue", async () => {
+        log("Show retry queue command triggered");
+        await showRetryQueue();
+      }),
+      vscode.commands.registerCommand("whisperdictation.showHistory", async () => {
+        log("Show history command triggered");
+        await showHistoryQuickPick();
+      }),
+      vscode.commands.registerCommand("whisperdictation.history.reinsert", reinsertHistoryEntry),
+      vscode.commands.registerCommand("whisperdictation.history.copy", copyHistoryEntry),
+      vscode.commands.registerCommand("whisperdictation.history.openAudio", openHistoryAudio),
+      vscode.commands.registerCommand("whisperdictation.history.retranscribe", retranscribeHistoryEntry),
+      vscode.commands.registerCommand("whisperdictation.clearHistory", clearHistory),
+      vscode.commands.registerCommand("whisperdictation.transcribeFile", transcribeFile),
+      vscode.commands.registerCommand("whisperdictation.replayRecording", replayRecording),
+      vscode.commands.registerCommand("whisperdictation.calibrateNoise", calibrateNoise),
+      vscode.commands.registerCommand("whisperdictation.showUsage", showUsage),
       vscode.commands.registerCommand("whisperdictation.openSettings", async () => {
         log("Open settings command triggered");
         await openSettings();
@@ -928,6 +1693,8 @@ export async function activate(context: vscode.ExtensionContext) {
         log("Update API key command triggered");
         await updateApiKey();
       }),
+      vscode.commands.registerCommand("whisperdictation.selectProfile", selectProfile),
+      vscode.commands.registerCommand("whisperdictation.selectTranscriptionModel", selectTranscriptionModel),
       vscode.commands.registerCommand("whisperdictation.toggleDictation", async () => {
         log("Toggle dictation command triggered");
         if (currentState === RecordingState.Idle) {
@@ -941,20 +1708,47 @@ export async function activate(context: vscode.ExtensionContext) {
           await stopRecording();
         }
       }),
+      vscode.commands.registerCommand("whisperdictation.toggleLanguage", toggleLanguage),
+      textModeStatusBarItem,
+      languageStatusBarItem,
+      registerVoiceEditPreview(),
+      vscode.window.onDidChangeActiveTextEditor(() => updateLanguageStatusBar()),
+      transcriptionEmitter,
       // Listen for configuration changes
       vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("whisperdictation.textMode")) {
+          updateTextModeStatusBar();
+        }
+
+        if (e.affectsConfiguration("whisperdictation.language") || e.affectsConfiguration("whisperdictation.languageRules")) {
+          updateLanguageStatusBar();
+        }
+
+        if (e.affectsConfiguration("whisperdictation.history")) {
+          dictationHistory?.prune();
+        }
+
+        if (e.affectsConfiguration("whisperdictation.inputDevice") || e.affectsConfiguration("whisperdictation.audioSource")) {
+          updateStatusBarState();
+        }
+
         if (e.affectsConfiguration("whisperdictation.transcriptionModel")) {
           const newModel = vscode.workspace.getConfiguration("whisperdictation").get<string>("transcriptionModel") || "gpt-4o-mini-transcribe";
           log(`Transcription model changed to: ${newModel}`);
         }
 
-        // If the OpenAI base URL changes and we already have a client, re-initialize it
-        if (e.affectsConfiguration("whisperdictation.openaiBaseUrl")) {
-          log("OpenAI base URL override changed");
-          void context.secrets.get(OPENAI_API_KEY_SECRET).then((key) => {
-            if (key) {
+        // If the provider changes, re-initialize the client with the key of the now active profile
+        if (
+          e.affectsConfiguration("whisperdictation.openaiBaseUrl") ||
+          e.affectsConfiguration("whisperdictation.profiles") ||
+          e.affectsConfiguration("whisperdictation.activeProfile")
+        ) {
+          log("Provider profile configuration changed");
+          openai = undefined;
+          void getStoredApiKey(getActiveProfile()).then((key) => {
+            if (key !== undefined) {
               openai = createOpenAIClient(key);
-              log("OpenAI client re-initialized after base URL change");
+              log("OpenAI client re-initialized after provider change");
             }
           });
         }
@@ -963,6 +1757,13 @@ export async function activate(context: vscode.ExtensionContext) {
 
     log("Commands registered");
     log("Extension activation completed successfully");
+
+    return {
+      transcribeFile: transcribeFileForApi,
+      startCapture,
+      stopCapture,
+      onDidTranscribe: transcriptionEmitter.event,
+    };
   } catch (error) {
     log(`Error during activation: ${error}`, true);
     if (error instanceof Error) {
@@ -976,46 +1777,817 @@ async function openSettings() {
   await vscode.commands.executeCommand("workbench.action.openSettings", "whisperdictation");
 }
 
-async function promptForApiKey() {
-  const action = await vscode.window.showInformationMessage("OpenAI API key not configured. Please enter your API key.", "Enter API Key");
+async function promptForApiKey(profile: ProviderProfile) {
+  const action = await vscode.window.showInformationMessage(
+    profile.name === DEFAULT_PROFILE_NAME
+      ? "OpenAI API key not configured. Please enter your API key."
+      : `API key of the provider profile "${profile.name}" not configured. Please enter your API key.`,
+    "Enter API Key"
+  );
 
   if (action === "Enter API Key") {
-    return updateApiKey();
+    return updateApiKey(profile);
   }
 }
 
-async function updateApiKey() {
+async function updateApiKey(profile: ProviderProfile = getActiveProfile()) {
   const apiKey = await vscode.window.showInputBox({
-    prompt: "Enter your OpenAI API key",
+    prompt: profile.name === DEFAULT_PROFILE_NAME ? "Enter your OpenAI API key" : `Enter the API key of the provider profile "${profile.name}"`,
     password: true,
-    placeHolder: "sk-...",
+    placeHolder: profile.type === ProviderType.OpenAI ? "sk-..." : undefined,
   });
 
   if (apiKey) {
-    await extensionContext.secrets.store(OPENAI_API_KEY_SECRET, apiKey);
-    // Initialize OpenAI client with the new key
-    openai = createOpenAIClient(apiKey);
+    await extensionContext.secrets.store(getProfileSecretKey(profile), apiKey);
+    // Initialize OpenAI client with the new key when it belongs to the active profile
+    if (profile.name === getActiveProfile().name) {
+      openai = createOpenAIClient(apiKey, profile);
+    }
     vscode.window.showInformationMessage("API key saved securely");
     return true;
   }
   return false;
 }
 
+// Switch the provider profile used for OpenAI requests
+async function selectProfile() {
+  const active = getActiveProfile();
+  const items = getProfiles().map((profile) => ({
+    label: profile.name,
+    description: profile.name === active.name ? "active" : undefined,
+    detail: describeProfile(profile),
+    profile,
+  }));
+  const selected = await vscode.window.showQuickPick(items, { placeHolder: "Provider profile for transcription and chat requests" });
+  if (!selected) {
+    return;
+  }
+
+  const { profile } = selected;
+  await vscode.workspace
+    .getConfiguration("whisperdictation")
+    .update("activeProfile", profile.name === DEFAULT_PROFILE_NAME ? undefined : profile.name, vscode.ConfigurationTarget.Global);
+  log(`Active provider profile changed to "${profile.name}"`);
+
+  if ((await getStoredApiKey(profile)) === undefined) {
+    const action = await vscode.window.showInformationMessage(`The provider profile "${profile.name}" has no API key yet.`, "Enter API Key");
+    if (action === "Enter API Key") {
+      await updateApiKey(profile);
+    }
+  }
+}
+
+// Pick the transcription model from the models of the active profile
+async function selectTranscriptionModel() {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const current = config.get<string>("transcriptionModel") || "gpt-4o-mini-transcribe";
+  const profile = getActiveProfile();
+  const models = await listProfileModels(profile, getConfiguredBackendId() === BackendId.OpenAI ? openai : undefined);
+  const model = await vscode.window.showQuickPick(
+    models.map((name) => ({ label: name, description: name === current ? "current" : undefined })),
+    { placeHolder: `Transcription model of the provider profile "${profile.name}"` }
+  );
+  if (model) {
+    await config.update("transcriptionModel", model.label, vscode.ConfigurationTarget.Global);
+  }
+}
+
 // This method is called when your extension is deactivated
 export function deactivate() {
   if (recordingProcess) {
     recordingProcess.kill();
   }
   recordingProcess = undefined;
+  disposeAudioSource();
   openai = undefined;
 }
 
 // Add after the resetRecordingState function
 function resetDictationMode() {
   currentDictationMode = DictationMode.Normal;
+  dictationTarget = undefined;
+  voiceEditTarget = undefined;
+  translateDictation = false;
+  dictationOptions = undefined;
+  streamingBackend = undefined;
+  replayFile = undefined;
   log("Reset dictation mode to normal");
 }
 
+// Apply the arguments of whisperdictation.startDictation, e.g. { "mode": "clipboard", "language": "de" } from a keybinding
+function applyDictationOptions(options: DictationOptions) {
+  dictationOptions = { model: options.model, language: options.language };
+  switch (options.mode) {
+    case "clipboard":
+      currentDictationMode = DictationMode.ClipboardOnly;
+      break;
+    case "live":
+      currentDictationMode = DictationMode.Live;
+      break;
+    case "realtime":
+      currentDictationMode = DictationMode.Realtime;
+      break;
+    case "translate":
+      translateDictation = true;
+      break;
+  }
+  if (options.target !== undefined) {
+    dictationTarget = parseDictationTarget(options.target);
+  }
+}
+
+// Start a dictation and resolve with its text once it ends, undefined when it failed or was cancelled
+async function runDictation(context: vscode.ExtensionContext): Promise<string | undefined> {
+  const finished = new Promise<string | undefined>((resolve) => dictationWaiters.push(resolve));
+  await startRecording(context);
+  if (currentState === RecordingState.Idle) {
+    resetRecordingState();
+  }
+  return finished;
+}
+
+async function startCapture(options: TranscriptionOptions = {}): Promise<void> {
+  if (currentState !== RecordingState.Idle) {
+    throw new Error("A dictation is already in progress.");
+  }
+  log("Capture started through the API");
+  currentDictationMode = DictationMode.Capture;
+  dictationOptions = { model: options.model, language: options.language };
+  captureResult = new Promise((resolve) => dictationWaiters.push(resolve));
+  await startRecording(extensionContext);
+  if (currentState === RecordingState.Idle) {
+    resetRecordingState();
+    captureResult = undefined;
+    throw new Error("Recording could not be started.");
+  }
+}
+
+async function stopCapture(): Promise<string> {
+  const result = captureResult;
+  if (!result) {
+    throw new Error("No capture is in progress.");
+  }
+  captureResult = undefined;
+  // The capture may have stopped by itself on silence or the length limit
+  if (currentState === RecordingState.Recording && currentDictationMode === DictationMode.Capture) {
+    await stopRecording();
+  }
+  const text = await result;
+  if (text === undefined) {
+    throw new Error("The capture could not be transcribed.");
+  }
+  return text;
+}
+
+function updateQueueStatusBar() {
+  const count = retryQueue?.entries.length ?? 0;
+  if (count === 0) {
+    queueStatusBarItem.hide();
+    return;
+  }
+
+  const waiting = retryQueue?.entries.filter((entry) => entry.autoRetry).length ?? 0;
+  queueStatusBarItem.text = `$(history) ${count} queued`;
+  queueStatusBarItem.tooltip = `${count} recording(s) failed to transcribe, ${waiting} retrying automatically - click to manage`;
+  queueStatusBarItem.show();
+}
+
+// Transcribe a queued recording with the configured backend
+async function transcribeQueuedRecording(entry: QueuedRecording, audioPath: string): Promise<string> {
+  const backend = await resolveBackend(extensionContext);
+  if (!backend) {
+    throw new Error("No transcription backend available");
+  }
+  const language = resolveDictationLanguage().code;
+  let detectedLanguage: string | undefined;
+  const text = await transcribeAudioFile(backend, audioPath, language || undefined, undefined, undefined, (reported) => {
+    detectedLanguage = detectedLanguage ?? toLanguageCode(reported);
+  });
+
+  dictationHistory?.add(
+    {
+      timestamp: Date.now(),
+      text,
+      backend: backend.id,
+      model: backend.model,
+      language: language || detectedLanguage || "",
+      durationSeconds: await getRecordingDuration(audioPath),
+    },
+    audioPath
+  );
+  log(`Queued recording ${entry.audioFile} transcribed, ${text.length} characters`);
+  return text;
+}
+
+// Automatic retries cannot know where the cursor was, so the text goes to the clipboard
+async function deliverQueuedRecording(entry: QueuedRecording, audioPath: string) {
+  const text = await transcribeQueuedRecording(entry, audioPath);
+  await vscode.env.clipboard.writeText(text);
+  const action = await vscode.window.showInformationMessage("A queued dictation was transcribed and copied to the clipboard.", "Insert at Cursor");
+  if (action === "Insert at Cursor") {
+    await insertAtCursor(text);
+  }
+}
+
+async function showRetryQueue() {
+  const entries = retryQueue?.entries ?? [];
+  if (!retryQueue || entries.length === 0) {
+    vscode.window.showInformationMessage("No recordings are waiting to be transcribed.");
+    return;
+  }
+  const queue = retryQueue;
+
+  const picked = await vscode.window.showQuickPick(
+    entries.map((entry) => ({
+      label: `$(mic) Recording from ${new Date(entry.createdAt).toLocaleString()}`,
+      description:
+        entry.autoRetry && entry.nextAttemptAt
+          ? `retrying in ${Math.max(0, Math.round((entry.nextAttemptAt - Date.now()) / 1000))}s`
+          : `${entry.attempts} attempt(s), waiting`,
+      detail: entry.lastError,
+      entry,
+    })),
+    { placeHolder: "Select a recording that failed to transcribe" }
+  );
+  if (!picked) {
+    return;
+  }
+  if (queue.isLeased(picked.entry)) {
+    vscode.window.showInformationMessage("This recording is being transcribed in another window.");
+    return;
+  }
+
+  const action = await vscode.window.showQuickPick(
+    [
+      { label: "$(refresh) Retry Now", detail: "Transcribe and insert at the cursor", id: "retry" },
+      { label: "$(clippy) Transcribe into Clipboard", id: "clipboard" },
+      { label: "$(trash) Discard", detail: "Delete the recording", id: "discard" },
+    ],
+    { placeHolder: picked.label }
+  );
+
+  switch (action?.id) {
+    case "retry":
+    case "clipboard": {
+      const toClipboard = action.id === "clipboard";
+      const succeeded = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Transcribing queued recording..." },
+        () =>
+          queue.retry(picked.entry, async (entry, audioPath) => {
+            const text = await transcribeQueuedRecording(entry, audioPath);
+            await vscode.env.clipboard.writeText(text);
+            if (!toClipboard) {
+              await insertAtCursor(text);
+            }
+          })
+      );
+      if (!succeeded) {
+        vscode.window.showErrorMessage(`Transcription failed again: ${picked.entry.lastError}`);
+      } else if (toClipboard) {
+        vscode.window.showInformationMessage("Dictation copied to clipboard");
+      }
+      break;
+    }
+    case "discard":
+      queue.remove(picked.entry);
+      log(`Discarded queued recording ${picked.entry.audioFile}`);
+      break;
+  }
+}
+
+// Offer to recover recordings that a crashed window left in the temp directory
+async function offerOrphanRecovery() {
+  const orphans = findOrphanedRecordings();
+  if (orphans.length === 0) {
+    return;
+  }
+
+  log(`Found ${orphans.length} orphaned recording(s): ${orphans.join(", ")}`);
+  const choice = await vscode.window.showWarningMessage(
+    `Found ${orphans.length} recording(s) that an earlier session did not transcribe.`,
+    "Recover",
+    "Delete"
+  );
+  if (choice === "Recover") {
+    for (const orphan of orphans) {
+      retryQueue?.enqueue(orphan, new Error("Recovered after an interrupted session"), false);
+    }
+    await showRetryQueue();
+  } else if (choice === "Delete") {
+    for (const orphan of orphans) {
+      fs.rmSync(orphan, { force: true });
+    }
+    log("Orphaned recordings deleted");
+  }
+}
+
+// Duration of a recording for the history, if it can be read
+async function getRecordingDuration(filePath: string): Promise<number | undefined> {
+  try {
+    return path.extname(filePath).toLowerCase() === ".wav" ? getWavDuration(filePath) : await getAudioDuration(filePath);
+  } catch (error) {
+    log(`Could not read recording duration: ${error}`, true);
+    return undefined;
+  }
+}
+
+// Insert earlier dictated text at the cursor of the active editor
+async function insertAtCursor(text: string) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor) {
+    await vscode.env.clipboard.writeText(text);
+    vscode.window.showInformationMessage("No active editor - dictation copied to clipboard");
+    return;
+  }
+  await editor.edit((editBuilder) => {
+    for (const selection of editor.selections) {
+      editBuilder.replace(selection, text);
+    }
+  });
+  log("Dictation inserted at cursor");
+}
+
+async function reinsertHistoryEntry(entry: DictationHistoryEntry) {
+  await insertAtCursor(entry.text);
+}
+
+async function openHistoryAudio(entry: DictationHistoryEntry) {
+  const audioPath = dictationHistory?.getAudioPath(entry);
+  if (!audioPath) {
+    vscode.window.showErrorMessage("The recording of this dictation is no longer available.");
+    return;
+  }
+  await vscode.commands.executeCommand("vscode.open", vscode.Uri.file(audioPath));
+}
+
+// Transcribe a history entry's recording again with another model or language
+async function retranscribeHistoryEntry(entry: DictationHistoryEntry) {
+  const audioPath = dictationHistory?.getAudioPath(entry);
+  if (!dictationHistory || !audioPath) {
+    vscode.window.showErrorMessage("The recording of this dictation is no longer available.");
+    return;
+  }
+
+  const backendId = getConfiguredBackendId();
+  const client = backendId === BackendId.OpenAI ? await ensureOpenAIClient() : undefined;
+  if (backendId === BackendId.OpenAI && !client) {
+    return;
+  }
+  const model = client
+    ? await vscode.window.showQuickPick(await listProfileModels(getActiveProfile(), client), {
+        placeHolder: `Model to re-transcribe with (was ${entry.model})`,
+      })
+    : await vscode.window.showInputBox({ prompt: "Model to re-transcribe with", value: entry.model });
+  if (!model) {
+    return;
+  }
+  const language = await vscode.window.showInputBox({
+    prompt: "Language code to re-transcribe with",
+    value: entry.language,
+  });
+  if (language === undefined) {
+    return;
+  }
+
+  const backend = meterUsage(createBackend(backendId, client, model));
+
+  try {
+    const text = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Re-transcribing with ${model}...`, cancellable: true },
+      async (_progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+        return transcribeAudioFile(backend, audioPath, language || undefined, abortController.signal);
+      }
+    );
+
+    dictationHistory.addTranscript(entry, text, model, language);
+    await vscode.env.clipboard.writeText(text);
+    log(`Re-transcribed history entry with ${model}, ${text.length} characters`);
+    const action = await vscode.window.showInformationMessage("Re-transcription copied to clipboard.", "Insert at Cursor");
+    if (action === "Insert at Cursor") {
+      await insertAtCursor(text);
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      log("Re-transcription was cancelled by user");
+      return;
+    }
+    log(`Error re-transcribing history entry: ${error}`, true);
+    vscode.window.showErrorMessage(`Re-transcription failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Transcribe an existing audio or video file into a Markdown transcript or subtitles next to it
+async function transcribeFile(uri?: vscode.Uri) {
+  const source =
+    uri ??
+    (
+      await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: "Transcribe",
+        filters: { "Audio and video": AUDIO_FILE_EXTENSIONS },
+      })
+    )?.[0];
+  if (!source) {
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    Object.values(TranscriptFormat).map((format) => ({ label: TRANSCRIPT_FORMAT_LABELS[format], format })),
+    { placeHolder: `Transcribe ${path.basename(source.fsPath)} as` }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const outputPath = getTranscriptPath(source.fsPath, picked.format);
+  if (fs.existsSync(outputPath)) {
+    const answer = await vscode.window.showWarningMessage(`${path.basename(outputPath)} already exists. Overwrite it?`, { modal: true }, "Overwrite");
+    if (answer !== "Overwrite") {
+      return;
+    }
+  }
+
+  let backend = await resolveBackend(extensionContext);
+  if (!backend) {
+    return;
+  }
+  // Subtitles need real timestamps, which only whisper-1 returns on the OpenAI backend
+  if (picked.format !== TranscriptFormat.Markdown && !backend.supportsTimestamps && backend.id === BackendId.OpenAI && openai) {
+    log(`${backend.model} does not return timestamps, using ${TIMESTAMP_MODEL} for subtitles`);
+    backend = meterUsage(createBackend(BackendId.OpenAI, openai, TIMESTAMP_MODEL));
+  }
+  const transcriber = backend;
+
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisperdictation-file-"));
+  try {
+    const language = resolveDictationLanguage().code || undefined;
+    const segments = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Transcribing ${path.basename(source.fsPath)}`, cancellable: true },
+      async (progress, token) => {
+        const abortController = new AbortController();
+        token.onCancellationRequested(() => abortController.abort());
+
+        progress.report({ message: "converting audio..." });
+        let reported = 0;
+        return transcribeMediaFile(transcriber, source.fsPath, workDir, language, abortController.signal, (completed, total) => {
+          const percent = (completed / total) * 100;
+          progress.report({ message: `chunk ${Math.min(completed + 1, total)} of ${total}`, increment: percent - reported });
+          reported = percent;
+        });
+      }
+    );
+
+    fs.writeFileSync(outputPath, formatTranscript(segments, picked.format, `Transcript of ${path.basename(source.fsPath)}`));
+    log(`Transcript of ${source.fsPath} written to ${outputPath} (${segments.length} segment(s))`);
+    fireFileTranscribed(source, segments, transcriber, language);
+    await vscode.window.showTextDocument(vscode.Uri.file(outputPath));
+  } catch (error) {
+    if (isAbortError(error)) {
+      log("File transcription was cancelled by user");
+      return;
+    }
+    log(`Error transcribing ${source.fsPath}: ${error}`, true);
+    vscode.window.showErrorMessage(`Transcription of ${path.basename(source.fsPath)} failed: ${error instanceof Error ? error.message : error}`);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Dictate a saved recording as if it were spoken now, e.g. one from the debug directory that produced a bad transcript
+async function replayRecording() {
+  if (currentState !== RecordingState.Idle) {
+    return;
+  }
+  const debugDir = getDebugDirectory();
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: "Replay",
+    defaultUri: fs.existsSync(debugDir) ? vscode.Uri.file(debugDir) : undefined,
+    filters: { Audio: AUDIO_FILE_EXTENSIONS },
+  });
+  if (!picked || currentState !== RecordingState.Idle) {
+    return;
+  }
+  replayFile = picked[0].fsPath;
+  await runDictation(extensionContext);
+}
+
+// Convert an audio or video file to WAV when SoX can read it, then transcribe it in chunks
+async function transcribeMediaFile(
+  backend: TranscriptionBackend,
+  sourcePath: string,
+  workDir: string,
+  language: string | undefined,
+  signal?: AbortSignal,
+  onProgress?: (completed: number, total: number) => void
+): Promise<TimedText[]> {
+  let audioPath: string;
+  try {
+    audioPath = await convertToWav(sourcePath, path.join(workDir, "source.wav"));
+  } catch (error) {
+    // SoX builds without MP3/M4A/WebM support can still hand the file to a backend that decodes it
+    const maxSize = backend.maxFileSizeBytes ?? Infinity;
+    if (!backend.acceptsCompressedAudio || fs.statSync(sourcePath).size > maxSize) {
+      throw new Error(`SoX could not read ${path.basename(sourcePath)}. Convert it to WAV or FLAC first.`);
+    }
+    log(`Could not convert ${sourcePath}, uploading it as is: ${error}`);
+    audioPath = sourcePath;
+  }
+
+  const segmentation = getSegmentationOptions();
+  return transcribeTimed(backend, audioPath, workDir, {
+    maxChunkSeconds: segmentation?.maxSegmentSeconds ?? Infinity,
+    encodeUpload: (wavPath) => prepareUpload(wavPath, backend),
+    language,
+    prompt: (await buildTranscriptionPrompt(backend.model)).prompt,
+    signal,
+    onProgress,
+  });
+}
+
+function fireFileTranscribed(uri: vscode.Uri, segments: TimedText[], backend: TranscriptionBackend, language: string | undefined): string {
+  const text = segments.map((segment) => segment.text).join(" ");
+  const end = segments.length > 0 ? segments[segments.length - 1].end : 0;
+  fireTranscribed({ text, source: "file", backend: backend.id, model: backend.model, language, durationSeconds: end || undefined, uri });
+  return text;
+}
+
+// WhisperDictationApi.transcribeFile: no progress notification, errors are thrown to the caller
+async function transcribeFileForApi(uri: vscode.Uri, options: TranscribeFileOptions = {}): Promise<string> {
+  const backend = await resolveBackend(extensionContext, options.model);
+  if (!backend) {
+    throw new Error("No transcription backend is available.");
+  }
+  const language = (options.language !== undefined ? toLanguageCode(options.language) : resolveDictationLanguage().code) || undefined;
+
+  const abortController = new AbortController();
+  const cancellation = options.token?.onCancellationRequested(() => abortController.abort());
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisperdictation-file-"));
+  try {
+    log(`Transcribing ${uri.fsPath} through the API`);
+    const segments = await transcribeMediaFile(backend, uri.fsPath, workDir, language, abortController.signal);
+    return fireFileTranscribed(uri, segments, backend, language);
+  } finally {
+    cancellation?.dispose();
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Pick a history entry, then what to do with it
+async function showHistoryQuickPick() {
+  const entries = dictationHistory?.entries ?? [];
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage("No dictations in the history yet.");
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    entries.map((entry) => ({ ...describeEntry(entry), entry })),
+    { placeHolder: "Select a dictation", matchOnDetail: true }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const hasAudio = dictationHistory?.getAudioPath(picked.entry) !== undefined;
+  const actions = [
+    { label: "$(insert) Insert at Cursor", run: reinsertHistoryEntry },
+    { label: "$(copy) Copy", run: copyHistoryEntry },
+    ...(hasAudio
+      ? [
+          { label: "$(play) Open Recording", run: openHistoryAudio },
+          { label: "$(refresh) Re-transcribe...", run: retranscribeHistoryEntry },
+        ]
+      : []),
+  ];
+  const action = await vscode.window.showQuickPick(actions, { placeHolder: describeEntry(picked.entry).label });
+  await action?.run(picked.entry);
+}
+
+async function copyHistoryEntry(entry: DictationHistoryEntry) {
+  await vscode.env.clipboard.writeText(entry.text);
+  vscode.window.showInformationMessage("Dictation copied to clipboard");
+}
+
+async function clearHistory() {
+  const answer = await vscode.window.showWarningMessage(
+    "Delete all dictations and recordings from the history?",
+    { modal: true },
+    "Clear History"
+  );
+  if (answer === "Clear History") {
+    dictationHistory?.clear();
+    log("Dictation history cleared");
+  }
+}
+
+// OpenAI client, created on demand because chat completions are used whatever the transcription backend is
+async function ensureOpenAIClient(): Promise<OpenAI | undefined> {
+  if (openai) {
+    return openai;
+  }
+
+  const apiKey = await getApiKey(extensionContext);
+  if (apiKey === undefined) {
+    return undefined;
+  }
+  openai = createOpenAIClient(apiKey);
+  return openai;
+}
+
+// Start recording a spoken instruction for the selections in the active editor
+async function startVoiceEdit(context: vscode.ExtensionContext) {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.selections.every((selection) => selection.isEmpty)) {
+    vscode.window.showErrorMessage("Select the text to edit first.");
+    return;
+  }
+
+  currentDictationMode = DictationMode.EditSelection;
+  voiceEditTarget = { document: editor.document, selections: editor.selections, version: editor.document.version };
+  log(`Recording voice edit instruction for ${editor.selections.length} selection(s)`);
+  await startRecording(context);
+}
+
+// Rewrite the selections according to the spoken instruction and preview the result
+async function applyVoiceEdit(instruction: string, target: VoiceEditTarget) {
+  if (!instruction) {
+    vscode.window.showWarningMessage("No instruction was heard.");
+    return;
+  }
+
+  const client = await ensureOpenAIClient();
+  if (!client) {
+    vscode.window.showErrorMessage("Editing a selection by voice needs an OpenAI API key.");
+    return;
+  }
+
+  // The selections no longer point at the text they covered, so do not pay for edits that cannot be applied
+  if (target.document.version !== target.version) {
+    vscode.window.showErrorMessage("The document changed while the voice edit was recorded. Please try again.");
+    return;
+  }
+
+  processingDetail = "voice edit";
+  updateStatusBarState();
+  const edits = await proposeSelectionEdits(client, instruction, target.document, target.selections, transcriptionAbortController?.signal);
+
+  // Not awaited: waiting for Accept or Reject must not keep the extension in the processing state and block dictation
+  void previewAndApplyEdits(target.document, edits, target.version).catch((error) => {
+    log(`Error previewing voice edit: ${error}`, true);
+    vscode.window.showErrorMessage(`Voice edit failed: ${error instanceof Error ? error.message : error}`);
+  });
+}
+
+// Translate a transcript with a chat model, falling back to the untranslated text when the call fails
+async function applyTranslation(text: string, options: TranslationOptions): Promise<string> {
+  const client = await ensureOpenAIClient();
+  if (!client) {
+    vscode.window.showWarningMessage("Translation skipped: it needs an OpenAI API key.");
+    return text;
+  }
+
+  processingDetail = "translation";
+  updateStatusBarState();
+  try {
+    const translated = await translateTranscript(client, text, options, transcriptionAbortController?.signal);
+    log(`Translation length: ${translated.length} characters`);
+    return translated;
+  } catch (error) {
+    if (transcriptionAbortController?.signal.aborted) {
+      throw error;
+    }
+    log(`Translation failed, using the untranslated transcript: ${error}`, true);
+    vscode.window.showWarningMessage(`Translation failed, inserted the untranslated transcript: ${error instanceof Error ? error.message : error}`);
+    return text;
+  } finally {
+    processingDetail = undefined;
+    updateStatusBarState();
+  }
+}
+
+// Run the rewrite pass, falling back to the unchanged text when the chat call fails
+async function applyRewrite(text: string, options: RewriteOptions): Promise<string> {
+  const client = await ensureOpenAIClient();
+  if (!client) {
+    vscode.window.showWarningMessage("Rewrite skipped: it needs an OpenAI API key.");
+    return text;
+  }
+
+  processingDetail = "rewrite";
+  updateStatusBarState();
+  try {
+    const rewritten = await rewriteTranscript(client, text, options, transcriptionAbortController?.signal);
+    log(`Rewrite length: ${rewritten.length} characters`);
+    return rewritten;
+  } catch (error) {
+    if (transcriptionAbortController?.signal.aborted) {
+      throw error;
+    }
+    log(`Rewrite failed, using the raw transcript: ${error}`, true);
+    vscode.window.showWarningMessage(`Rewrite failed, inserted the raw transcript: ${error instanceof Error ? error.message : error}`);
+    return text;
+  } finally {
+    processingDetail = undefined;
+    updateStatusBarState();
+  }
+}
+
+async function selectRewritePreset() {
+  const current = getRewritePreset();
+  const selected = await vscode.window.showQuickPick(
+    Object.values(RewritePreset).map((preset) => ({
+      label: REWRITE_PRESET_LABELS[preset],
+      description: preset === current ? "current" : undefined,
+      preset,
+    })),
+    { placeHolder: "Select how dictated prose is rewritten before insertion" }
+  );
+
+  if (!selected) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (selected.preset === RewritePreset.Custom) {
+    const instruction = await vscode.window.showInputBox({
+      prompt: "Instruction for the rewrite model",
+      value: config.get<string>("rewrite.customInstruction") ?? "",
+      ignoreFocusOut: true,
+    });
+    if (instruction === undefined) {
+      return;
+    }
+    await config.update("rewrite.customInstruction", instruction, vscode.ConfigurationTarget.Global);
+  }
+  await config.update("rewrite.preset", selected.preset, vscode.ConfigurationTarget.Global);
+  log(`Rewrite preset changed to: ${selected.preset}`);
+}
+
+// Build the prompt sent with a transcription: the system prompt plus workspace vocabulary
+async function buildTranscriptionPrompt(model: string): Promise<{ prompt: string | undefined; terms: VocabularyTerm[] }> {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const useSystemPrompts = config.get<boolean>("useSystemPrompts") ?? true;
+  const basePrompt = useSystemPrompts ? getSystemPrompt(model) : undefined;
+
+  const vocabularyOptions = getVocabularyOptions();
+  if (!vocabularyOptions) {
+    return { prompt: basePrompt, terms: [] };
+  }
+
+  const terms = await collectVocabulary(vocabularyOptions);
+  log(`Collected ${terms.length} vocabulary term(s)`);
+  return { prompt: appendVocabulary(basePrompt, terms, model), terms };
+}
+
+// Open a report of transcribed minutes and estimated cost
+async function showUsage() {
+  if (!usageTracker) {
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument({ content: usageTracker.report(), language: "markdown" });
+  await vscode.window.showTextDocument(document);
+}
+
+// Open a document showing the prompt the next transcription would send
+async function showTranscriptionPrompt() {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const model =
+    getConfiguredBackendId() === BackendId.OpenAI
+      ? config.get<string>("transcriptionModel") || "gpt-4o-mini-transcribe"
+      : createBackend(getConfiguredBackendId()).model;
+  const { prompt, terms } = await buildTranscriptionPrompt(model);
+
+  const lines = [
+    `# Transcription prompt for ${model}`,
+    "",
+    prompt ?? "(no prompt is sent)",
+    "",
+    `## Vocabulary candidates (${terms.length})`,
+    "",
+    ...terms.map((term) => `- ${term.term} (${term.source}, score ${term.score})`),
+  ];
+  const document = await vscode.workspace.openTextDocument({ content: lines.join("\n"), language: "markdown" });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+// Run editor actions recognized by the spoken command grammar
+async function runSpokenActions(actions: SpokenAction[]) {
+  for (const action of actions) {
+    switch (action) {
+      case SpokenAction.DeleteLastWord:
+        await vscode.commands.executeCommand("deleteWordLeft");
+        break;
+      case SpokenAction.UndoThat:
+        await vscode.commands.executeCommand("undo");
+        break;
+    }
+    log(`Spoken action executed: ${action}`);
+  }
+}
+
 // Generate system prompt based on the selected model
 function getSystemPrompt(modelName: string): string {
   switch (modelName) {
@@ -0,0 +1,164 @@
+import * as path from "path";
+
+import { TimedText, TranscriptionBackend } from "./backends";
+import { log } from "./logger";
+import { buildContinuationPrompt, splitIntoChunks } from "./segmentation";
+
+// Files offered by "Transcribe Audio File..." and the Explorer context menu
+export const AUDIO_FILE_EXTENSIONS = ["wav", "mp3", "m4a", "ogg", "flac", "webm"];
+
+export enum TranscriptFormat {
+  Markdown = "markdown",
+  Srt = "srt",
+  Vtt = "vtt",
+}
+
+export const TRANSCRIPT_FORMAT_LABELS: Record<TranscriptFormat, string> = {
+  [TranscriptFormat.Markdown]: "Markdown transcript",
+  [TranscriptFormat.Srt]: "SubRip subtitles (.srt)",
+  [TranscriptFormat.Vtt]: "WebVTT subtitles (.vtt)",
+};
+
+const FORMAT_EXTENSIONS: Record<TranscriptFormat, string> = {
+  [TranscriptFormat.Markdown]: ".md",
+  [TranscriptFormat.Srt]: ".srt",
+  [TranscriptFormat.Vtt]: ".vtt",
+};
+
+// Start a new Markdown paragraph after a pause this long, or once a paragraph covers this much audio
+const PARAGRAPH_PAUSE_SECONDS = 2;
+const PARAGRAPH_MAX_SECONDS = 60;
+
+export interface FileTranscriptionOptions {
+  // Chunk length for uploads, Infinity to send the file in one piece
+  maxChunkSeconds: number;
+  // Turns a WAV chunk into the file to upload, e.g. a compressed copy; undefined to send WAV
+  encodeUpload?: (wavPath: string) => Promise<string>;
+  language?: string;
+  prompt?: string;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+  onDetectedLanguage?: (language: string) => void;
+}
+
+// The transcript is written next to the source, e.g. meeting.m4a -> meeting.srt
+export function getTranscriptPath(sourcePath: string, format: TranscriptFormat): string {
+  const parsed = path.parse(sourcePath);
+  return path.join(parsed.dir, `${parsed.name}${FORMAT_EXTENSIONS[format]}`);
+}
+
+// Spread a chunk's duration over its sentences by length, for backends that return text only
+export function estimateTimings(text: string, duration: number): TimedText[] {
+  const sentences = text
+    .split(/(?<=[.!?…])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence);
+  const totalLength = sentences.reduce((total, sentence) => total + sentence.length, 0);
+
+  let start = 0;
+  return sentences.map((sentence) => {
+    const end = totalLength > 0 ? start + (duration * sentence.length) / totalLength : start;
+    const timed = { start, end, text: sentence };
+    start = end;
+    return timed;
+  });
+}
+
+// Transcribe an audio file chunk by chunk and return its segments on the timeline of the whole file.
+// Only WAV files are split; other formats are uploaded as they are and have no known duration.
+export async function transcribeTimed(
+  backend: TranscriptionBackend,
+  audioPath: string,
+  workDir: string,
+  options: FileTranscriptionOptions
+): Promise<TimedText[]> {
+  const chunks =
+    path.extname(audioPath).toLowerCase() === ".wav"
+      ? await splitIntoChunks(audioPath, workDir, options.maxChunkSeconds)
+      : [{ filePath: audioPath, duration: 0 }];
+  log(`Transcribing ${path.basename(audioPath)} in ${chunks.length} chunk(s)`);
+
+  const segments: TimedText[] = [];
+  let offset = 0;
+  let previousText: string | undefined;
+  options.onProgress?.(0, chunks.length);
+
+  for (const [index, chunk] of chunks.entries()) {
+    if (options.signal?.aborted) {
+      const error = new Error("File transcription aborted");
+      error.name = "AbortError";
+      throw error;
+    }
+
+    const isWav = path.extname(chunk.filePath).toLowerCase() === ".wav";
+    const filePath = isWav && options.encodeUpload ? await options.encodeUpload(chunk.filePath) : chunk.filePath;
+
+    const request = {
+      filePath,
+      language: options.language,
+      prompt: buildContinuationPrompt(options.prompt, previousText),
+      signal: options.signal,
+      onDetectedLanguage: options.onDetectedLanguage,
+    };
+    const chunkSegments =
+      backend.supportsTimestamps && backend.transcribeTimed
+        ? await backend.transcribeTimed(request)
+        : estimateTimings(await backend.transcribe(request), chunk.duration);
+
+    segments.push(...chunkSegments.map((segment) => ({ ...segment, start: segment.start + offset, end: segment.end + offset })));
+    previousText = chunkSegments.map((segment) => segment.text).join(" ");
+    offset += chunk.duration;
+    options.onProgress?.(index + 1, chunks.length);
+  }
+
+  return segments.filter((segment) => segment.text);
+}
+
+// 01:02:03,456 for SRT, 01:02:03.456 for WebVTT
+function formatTimestamp(seconds: number, separator: string): string {
+  const milliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor(milliseconds / 60000) % 60;
+  const secs = Math.floor(milliseconds / 1000) % 60;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(milliseconds % 1000, 3)}`;
+}
+
+function formatMarkdown(segments: TimedText[], title: string): string {
+  const timed = segments.some((segment) => segment.end > 0);
+  const paragraphs: TimedText[][] = [];
+  for (const segment of segments) {
+    const current = paragraphs[paragraphs.length - 1];
+    if (
+      current &&
+      (!timed ||
+        (segment.start - current[current.length - 1].end < PARAGRAPH_PAUSE_SECONDS && segment.end - current[0].start < PARAGRAPH_MAX_SECONDS))
+    ) {
+      current.push(segment);
+    } else {
+      paragraphs.push([segment]);
+    }
+  }
+
+  const body = paragraphs.map((paragraph) => {
+    const text = paragraph.map((segment) => segment.text).join(" ");
+    return timed ? `**[${formatTimestamp(paragraph[0].start, ",").slice(0, 8)}]** ${text}` : text;
+  });
+  return [`# ${title}`, "", ...body.flatMap((paragraph) => [paragraph, ""])].join("\n");
+}
+
+export function formatTranscript(segments: TimedText[], format: TranscriptFormat, title: string): string {
+  switch (format) {
+    case TranscriptFormat.Srt:
+      return segments
+        .map((segment, index) => `${index + 1}\n${formatTimestamp(segment.start, ",")} --> ${formatTimestamp(segment.end, ",")}\n${segment.text}\n`)
+        .join("\n");
+    case TranscriptFormat.Vtt: {
+      const cues = segments.map((segment) => `${formatTimestamp(segment.start, ".")} --> ${formatTimestamp(segment.end, ".")}\n${segment.text}\n`);
+      return ["WEBVTT", "", ...cues].join("\n");
+    }
+    case TranscriptFormat.Markdown:
+    default:
+      return formatMarkdown(segments, title);
+  }
+}
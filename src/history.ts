@@ -0,0 +1,199 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { log } from "./logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One transcribed recording as shown in the history view
+export interface DictationHistoryEntry {
+  id: string;
+  timestamp: number;
+  text: string;
+  backend: string;
+  model: string;
+  language: string;
+  durationSeconds?: number;
+  // Workspace-relative path of the file the text was inserted into, if any
+  targetFile?: string;
+  // File name of the retained recording inside the history's audio directory
+  audioFile?: string;
+}
+
+interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+  keepAudio: boolean;
+}
+
+function getHistoryRetention(): HistoryRetention {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return {
+    maxEntries: Math.max(0, config.get<number>("history.maxEntries") ?? 50),
+    maxAgeDays: Math.max(0, config.get<number>("history.maxAgeDays") ?? 30),
+    keepAudio: config.get<boolean>("history.keepAudio") ?? true,
+  };
+}
+
+// Recent dictations and their audio, stored under the extension's global storage
+export class DictationHistory implements vscode.Disposable {
+  private readonly indexPath: string;
+  private readonly audioDir: string;
+  private items: DictationHistoryEntry[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(storageDir: string) {
+    const historyDir = path.join(storageDir, "history");
+    this.indexPath = path.join(historyDir, "history.json");
+    this.audioDir = path.join(historyDir, "audio");
+    fs.mkdirSync(this.audioDir, { recursive: true });
+    this.prune();
+  }
+
+  // Newest first
+  get entries(): readonly DictationHistoryEntry[] {
+    return this.items;
+  }
+
+  getAudioPath(entry: DictationHistoryEntry): string | undefined {
+    if (!entry.audioFile) {
+      return undefined;
+    }
+    const audioPath = path.join(this.audioDir, entry.audioFile);
+    return fs.existsSync(audioPath) ? audioPath : undefined;
+  }
+
+  // Add a dictation, copying its recording when audio is retained
+  add(entry: Omit<DictationHistoryEntry, "id" | "audioFile">, audioPath?: string): DictationHistoryEntry {
+    const id = `${entry.timestamp}-${Math.random().toString(36).slice(2, 8)}`;
+    const stored: DictationHistoryEntry = { ...entry, id };
+
+    if (audioPath && getHistoryRetention().keepAudio) {
+      try {
+        stored.audioFile = `${id}${path.extname(audioPath)}`;
+        fs.copyFileSync(audioPath, path.join(this.audioDir, stored.audioFile));
+      } catch (error) {
+        log(`Could not keep recording for history: ${error}`, true);
+        stored.audioFile = undefined;
+      }
+    }
+
+    this.update((items) => [stored, ...items]);
+    return stored;
+  }
+
+  // Add a new transcript of an entry's audio, sharing its recording
+  addTranscript(source: DictationHistoryEntry, text: string, model: string, language: string): DictationHistoryEntry {
+    const audioPath = this.getAudioPath(source);
+    return this.add({ ...source, timestamp: Date.now(), text, model, language, targetFile: undefined }, audioPath);
+  }
+
+  clear() {
+    this.update((items) => {
+      for (const entry of items) {
+        this.deleteAudio(entry);
+      }
+      return [];
+    });
+  }
+
+  // Drop entries beyond the configured count or age
+  prune() {
+    this.update((items) => items);
+  }
+
+  dispose() {
+    this.changeEmitter.dispose();
+  }
+
+  private deleteAudio(entry: DictationHistoryEntry) {
+    const audioPath = this.getAudioPath(entry);
+    if (audioPath) {
+      try {
+        fs.unlinkSync(audioPath);
+      } catch (error) {
+        log(`Could not delete history recording: ${error}`, true);
+      }
+    }
+  }
+
+  // The index as other windows left it, undefined when it cannot be read
+  private load(): DictationHistoryEntry[] | undefined {
+    try {
+      return fs.existsSync(this.indexPath) ? JSON.parse(fs.readFileSync(this.indexPath, "utf8")) : [];
+    } catch (error) {
+      log(`Could not read dictation history: ${error}`, true);
+      return undefined;
+    }
+  }
+
+  // Apply a change to the history as it is on disk, so entries added by other windows are kept, then apply the retention
+  private update(change: (items: DictationHistoryEntry[]) => DictationHistoryEntry[]) {
+    const { maxEntries, maxAgeDays } = getHistoryRetention();
+    const oldest = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : -Infinity;
+    const items = change(this.load() ?? this.items).sort((a, b) => b.timestamp - a.timestamp);
+    const kept = items.filter((entry, index) => index < maxEntries && entry.timestamp >= oldest);
+
+    for (const entry of items) {
+      if (!kept.includes(entry)) {
+        this.deleteAudio(entry);
+      }
+    }
+    this.items = kept;
+
+    // Written to a temporary file and renamed, so other windows never read a half-written index
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(this.items, null, 2));
+      fs.renameSync(tempPath, this.indexPath);
+    } catch (error) {
+      log(`Could not save dictation history: ${error}`, true);
+    }
+    this.changeEmitter.fire();
+  }
+}
+
+export function formatDuration(seconds: number | undefined): string {
+  if (seconds === undefined) {
+    return "";
+  }
+  const rounded = Math.round(seconds);
+  return rounded >= 60 ? `${Math.floor(rounded / 60)}m ${rounded % 60}s` : `${rounded}s`;
+}
+
+// Short label for quick picks and tree items
+export function describeEntry(entry: DictationHistoryEntry): { label: string; description: string; detail: string } {
+  const firstLine = entry.text.split("\n")[0];
+  const details = [entry.model, entry.language, formatDuration(entry.durationSeconds), entry.targetFile].filter((part) => part);
+  return {
+    label: firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine || "(empty)",
+    description: new Date(entry.timestamp).toLocaleString(),
+    detail: details.join(" · "),
+  };
+}
+
+// Tree view listing the history, newest first
+export class DictationHistoryProvider implements vscode.TreeDataProvider<DictationHistoryEntry> {
+  readonly onDidChangeTreeData: vscode.Event<void>;
+
+  constructor(private readonly history: DictationHistory) {
+    this.onDidChangeTreeData = history.onDidChange;
+  }
+
+  getChildren(element?: DictationHistoryEntry): DictationHistoryEntry[] {
+    return element ? [] : [...this.history.entries];
+  }
+
+  getTreeItem(entry: DictationHistoryEntry): vscode.TreeItem {
+    const { label, description, detail } = describeEntry(entry);
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    item.id = entry.id;
+    item.description = description;
+    item.tooltip = new vscode.MarkdownString().appendText(entry.text).appendMarkdown("\n\n---\n\n").appendText(detail);
+    item.iconPath = new vscode.ThemeIcon(entry.audioFile ? "mic" : "note");
+    item.contextValue = this.history.getAudioPath(entry) ? "dictationWithAudio" : "dictation";
+    return item;
+  }
+}
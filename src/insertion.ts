@@ -0,0 +1,117 @@
+import * as vscode from "vscode";
+
+import { log } from "./logger";
+
+// How a transcript gets into the editor
+export enum InsertionStrategy {
+  // Copy to the clipboard and paste, leaving the transcript on the clipboard
+  Paste = "paste",
+  // Paste, then put the previous clipboard text back
+  PasteAndRestore = "pasteAndRestore",
+  // Insert through the editor API without touching the clipboard
+  Edit = "edit",
+  // Insert as a snippet so the editor's auto-indentation applies
+  Snippet = "snippet",
+  // Only copy to the clipboard
+  ClipboardOnly = "clipboardOnly",
+}
+
+// Editor and document version captured when a dictation stops
+export interface InsertionTarget {
+  editor: vscode.TextEditor;
+  version: number;
+}
+
+export function getInsertionStrategy(): InsertionStrategy {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const value = config.get<string>("insertionStrategy") as InsertionStrategy;
+  return Object.values(InsertionStrategy).includes(value) ? value : InsertionStrategy.Paste;
+}
+
+export function captureInsertionTarget(): InsertionTarget | undefined {
+  const editor = vscode.window.activeTextEditor;
+  return editor ? { editor, version: editor.document.version } : undefined;
+}
+
+// Whether the text can still go where the user was when they stopped dictating
+export function isTargetUnchanged(target: InsertionTarget): boolean {
+  return (
+    !target.editor.document.isClosed &&
+    target.editor.document.version === target.version &&
+    vscode.window.activeTextEditor === target.editor
+  );
+}
+
+// Replace every selection (or insert at every cursor) with the text
+async function insertWithEdit(editor: vscode.TextEditor, text: string): Promise<boolean> {
+  return editor.edit((editBuilder) => {
+    for (const selection of editor.selections) {
+      editBuilder.replace(selection, text);
+    }
+  });
+}
+
+// Escape the text so "$" and "}" are not read as snippet syntax
+async function insertAsSnippet(editor: vscode.TextEditor, text: string): Promise<boolean> {
+  return editor.insertSnippet(new vscode.SnippetString().appendText(text), editor.selections);
+}
+
+async function paste(editor: vscode.TextEditor | undefined, text: string): Promise<boolean> {
+  await vscode.env.clipboard.writeText(text);
+  try {
+    await vscode.commands.executeCommand("editor.action.clipboardPasteAction");
+    log("Transcription inserted using clipboard paste");
+    return true;
+  } catch (error) {
+    log(`Clipboard paste failed: ${error}`, true);
+    // If paste command fails and we have an editor, try direct insertion
+    if (editor && (await insertWithEdit(editor, text))) {
+      log("Inserted text using editor API after paste failed");
+      return true;
+    }
+    return false;
+  }
+}
+
+// Insert dictated text with the configured strategy; falls back to the clipboard when the text cannot be inserted
+export async function insertDictation(text: string, strategy: InsertionStrategy, editor: vscode.TextEditor | undefined): Promise<void> {
+  let inserted = false;
+
+  switch (strategy) {
+    case InsertionStrategy.ClipboardOnly:
+      await vscode.env.clipboard.writeText(text);
+      vscode.window.showInformationMessage("Dictation copied to clipboard");
+      log("Dictation copied to clipboard (clipboard-only strategy)");
+      return;
+    case InsertionStrategy.Edit:
+      inserted = editor !== undefined && (await insertWithEdit(editor, text));
+      break;
+    case InsertionStrategy.Snippet:
+      inserted = editor !== undefined && (await insertAsSnippet(editor, text));
+      break;
+    case InsertionStrategy.PasteAndRestore: {
+      const previous = await vscode.env.clipboard.readText();
+      try {
+        inserted = await paste(editor, text);
+      } finally {
+        await vscode.env.clipboard.writeText(previous);
+        log("Previous clipboard contents restored");
+      }
+      break;
+    }
+    case InsertionStrategy.Paste:
+    default:
+      inserted = await paste(editor, text);
+      break;
+  }
+
+  if (inserted) {
+    log(`Transcription inserted (${strategy})`);
+    return;
+  }
+
+  // Both methods failed, show clipboard message
+  log("Could not insert the transcription, copying it to the clipboard", true);
+  await vscode.env.clipboard.writeText(text);
+  vscode.window.showInformationMessage("Text copied to clipboard - press Ctrl+V/Cmd+V to paste");
+}
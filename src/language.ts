@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+
+// Codes offered by the whisperdictation.language setting
+const WHISPER_LANGUAGES = [
+  "af", "ar", "hy", "az", "be", "bs", "bg", "ca", "zh", "hr", "cs", "da", "nl", "en", "et", "fi", "fr", "gl", "de", "el", "he", "hi",
+  "hu", "is", "id", "it", "ja", "kn", "kk", "ko", "lv", "lt", "mk", "ms", "mr", "mi", "ne", "no", "fa", "pl", "pt", "ro", "ru", "sr",
+  "sk", "sl", "es", "sw", "sv", "tl", "ta", "th", "tr", "uk", "ur", "vi", "cy",
+];
+
+const USAGE_STATE_KEY = "languageUsage";
+
+// The language a dictation is transcribed in
+export interface DictationLanguage {
+  // Language code, empty for automatic detection
+  code: string;
+  // Pattern of the rule that chose the language, undefined when it comes from whisperdictation.language
+  rule?: string;
+}
+
+// A bare languageId such as "markdown" rather than a glob such as "docs/de/**" or "*.md"
+function isLanguageIdRule(pattern: string): boolean {
+  return /^[\w+#-]+$/.test(pattern);
+}
+
+function matchesRule(pattern: string, document: vscode.TextDocument): boolean {
+  if (isLanguageIdRule(pattern)) {
+    return document.languageId === pattern;
+  }
+
+  // Like .gitignore: patterns without a slash match the file name in any folder, others are relative to the workspace folder
+  const glob = pattern.includes("/") ? pattern.replace(/^\//, "") : `**/${pattern}`;
+  const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+  return vscode.languages.match({ pattern: folder ? new vscode.RelativePattern(folder, glob) : `**/${glob}` }, document) > 0;
+}
+
+// The first rule in whisperdictation.languageRules that matches the document, else whisperdictation.language
+export function resolveDictationLanguage(document?: vscode.TextDocument): DictationLanguage {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (document) {
+    const rules = config.get<Record<string, string>>("languageRules") ?? {};
+    for (const [pattern, code] of Object.entries(rules)) {
+      if (pattern.trim() && matchesRule(pattern.trim(), document)) {
+        return { code: (code ?? "").trim().toLowerCase(), rule: pattern };
+      }
+    }
+  }
+  return { code: (config.get<string>("language") ?? "").trim().toLowerCase() };
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+// Backends report either a code ("de") or an English name ("german"); return the code
+export function toLanguageCode(language: string): string | undefined {
+  const value = language.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+  if (/^[a-z]{2}([-_][a-z0-9]+)?$/.test(value)) {
+    return value.slice(0, 2);
+  }
+
+  try {
+    const names = new Intl.DisplayNames(["en"], { type: "language" });
+    return WHISPER_LANGUAGES.find((code) => normalizeName(names.of(code) ?? "") === normalizeName(value));
+  } catch {
+    return undefined;
+  }
+}
+
+// Status bar label, e.g. "DE" or "Auto"
+export function formatLanguage(code: string): string {
+  return code ? code.toUpperCase() : "Auto";
+}
+
+// Counts the languages dictated in, so the toggle can switch between the two most used
+export class LanguageUsage {
+  constructor(private readonly state: vscode.Memento) {}
+
+  private get counts(): Record<string, number> {
+    return this.state.get<Record<string, number>>(USAGE_STATE_KEY) ?? {};
+  }
+
+  async record(code: string): Promise<void> {
+    const counts = this.counts;
+    await this.state.update(USAGE_STATE_KEY, { ...counts, [code]: (counts[code] ?? 0) + 1 });
+  }
+
+  mostUsed(count: number): string[] {
+    return Object.entries(this.counts)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, count)
+      .map(([code]) => code);
+  }
+}
@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { AnchoredInserter } from "./anchoredInserter";
+import { TranscriptionBackend } from "./backends";
+import { log } from "./logger";
+import { PCM_BYTES_PER_SECOND, computeRms, createWavHeader } from "./pcm";
+import { buildContinuationPrompt } from "./segmentation";
+
+// Voice activity detection works on frames of this length
+const FRAME_MILLISECONDS = 30;
+const FRAME_BYTES = (PCM_BYTES_PER_SECOND * FRAME_MILLISECONDS) / 1000;
+// Audio kept from before speech starts so the first syllable is not cut off
+const PRE_ROLL_FRAMES = 10;
+// Chunks with less speech than this are coughs and clicks, not words
+const MIN_SPEECH_MILLISECONDS = 250;
+
+export interface PauseDetectorOptions {
+  pauseMilliseconds: number;
+  silenceThreshold: number;
+  maxChunkSeconds: number;
+}
+
+export interface LiveDictationOptions extends PauseDetectorOptions {
+  language?: string;
+  prompt?: string;
+}
+
+// Read live dictation settings
+export function getLiveDictationOptions(): PauseDetectorOptions {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return {
+    pauseMilliseconds: Math.max(200, config.get<number>("live.pauseMilliseconds") ?? 800),
+    silenceThreshold: config.get<number>("live.silenceThreshold") ?? 0.01,
+    maxChunkSeconds: Math.max(5, config.get<number>("live.maxChunkSeconds") ?? 30),
+  };
+}
+
+// Energy based voice activity detection that cuts a PCM stream into chunks at pauses
+export class PauseDetector {
+  private remainder = Buffer.alloc(0);
+  private preRoll: Buffer[] = [];
+  private frames: Buffer[] = [];
+  private inSpeech = false;
+  private speechMilliseconds = 0;
+  private silentMilliseconds = 0;
+
+  constructor(private readonly options: PauseDetectorOptions, private readonly onChunk: (pcm: Buffer) => void) {}
+
+  write(pcm: Buffer) {
+    let data = this.remainder.length > 0 ? Buffer.concat([this.remainder, pcm]) : pcm;
+    while (data.length >= FRAME_BYTES) {
+      this.processFrame(data.subarray(0, FRAME_BYTES));
+      data = data.subarray(FRAME_BYTES);
+    }
+    this.remainder = Buffer.from(data);
+  }
+
+  // Emit whatever speech has been collected so far
+  flush() {
+    if (this.remainder.length > 0) {
+      this.frames.push(this.remainder);
+      this.remainder = Buffer.alloc(0);
+    }
+    if (this.inSpeech) {
+      this.emitChunk();
+    }
+  }
+
+  private processFrame(frame: Buffer) {
+    const isSpeech = computeRms(frame) >= this.options.silenceThreshold;
+
+    if (!this.inSpeech) {
+      if (isSpeech) {
+        this.inSpeech = true;
+        this.frames = [...this.preRoll, Buffer.from(frame)];
+        this.preRoll = [];
+        this.speechMilliseconds = FRAME_MILLISECONDS;
+        this.silentMilliseconds = 0;
+      } else {
+        this.preRoll.push(Buffer.from(frame));
+        if (this.preRoll.length > PRE_ROLL_FRAMES) {
+          this.preRoll.shift();
+        }
+      }
+      return;
+    }
+
+    this.frames.push(Buffer.from(frame));
+    if (isSpeech) {
+      this.speechMilliseconds += FRAME_MILLISECONDS;
+      this.silentMilliseconds = 0;
+    } else {
+      this.silentMilliseconds += FRAME_MILLISECONDS;
+    }
+
+    const chunkMilliseconds = this.frames.length * FRAME_MILLISECONDS;
+    if (this.silentMilliseconds >= this.options.pauseMilliseconds || chunkMilliseconds >= this.options.maxChunkSeconds * 1000) {
+      this.emitChunk();
+    }
+  }
+
+  private emitChunk() {
+    if (this.speechMilliseconds >= MIN_SPEECH_MILLISECONDS) {
+      this.onChunk(Buffer.concat(this.frames));
+    }
+    this.inSpeech = false;
+    this.frames = [];
+    this.speechMilliseconds = 0;
+    this.silentMilliseconds = 0;
+  }
+}
+
+// Transcribes chunks as they close and appends the text at the position where dictation started
+export class LiveDictationSession implements vscode.Disposable {
+  private readonly detector: PauseDetector;
+  private readonly abortController = new AbortController();
+  private readonly inserter: AnchoredInserter;
+  private insertion: Promise<void> = Promise.resolve();
+  private pendingChunks = 0;
+  private chunkCount = 0;
+
+  constructor(
+    private readonly backend: TranscriptionBackend,
+    private readonly options: LiveDictationOptions,
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    private readonly onDidChangePending: (pending: number) => void
+  ) {
+    this.inserter = new AnchoredInserter(document, position);
+    this.detector = new PauseDetector(options, (pcm) => this.enqueue(pcm));
+  }
+
+  get pending(): number {
+    return this.pendingChunks;
+  }
+
+  write(pcm: Buffer) {
+    this.detector.write(pcm);
+  }
+
+  // Flush the last chunk and wait until every chunk has been inserted
+  async finish(): Promise<string> {
+    this.detector.flush();
+    await this.insertion;
+    await this.inserter.deliverRemaining();
+    return this.inserter.text;
+  }
+
+  dispose() {
+    this.abortController.abort();
+    this.inserter.dispose();
+  }
+
+  private enqueue(pcm: Buffer) {
+    const index = ++this.chunkCount;
+    this.pendingChunks++;
+    this.onDidChangePending(this.pendingChunks);
+    log(`Live chunk ${index} closed (${(pcm.length / PCM_BYTES_PER_SECOND).toFixed(1)}s)`);
+
+    // Start transcribing right away, but insert strictly in recording order
+    const transcription = this.transcribeChunk(pcm, index);
+    this.insertion = this.insertion.then(async () => {
+      try {
+        const text = (await transcription).trim();
+        if (text && !this.abortController.signal.aborted) {
+          await this.inserter.insert(text);
+        }
+      } catch (error) {
+        if (!this.abortController.signal.aborted) {
+          log(`Live chunk ${index} failed: ${error}`, true);
+          vscode.window.showWarningMessage(`Live dictation: a chunk could not be transcribed (${error instanceof Error ? error.message : error})`);
+        }
+      } finally {
+        this.pendingChunks--;
+        this.onDidChangePending(this.pendingChunks);
+      }
+    });
+  }
+
+  private async transcribeChunk(pcm: Buffer, index: number): Promise<string> {
+    const filePath = path.join(os.tmpdir(), `live-chunk-${Date.now()}-${index}.wav`);
+    fs.writeFileSync(filePath, Buffer.concat([createWavHeader(pcm.length), pcm]));
+
+    try {
+      return await this.backend.transcribe({
+        filePath,
+        language: this.options.language,
+        prompt: buildContinuationPrompt(this.options.prompt, this.inserter.text),
+        signal: this.abortController.signal,
+      });
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  }
+}
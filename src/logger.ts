@@ -0,0 +1,20 @@
+import * as vscode from "vscode";
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+// Route log output to the extension's output channel
+export function initLogger(channel: vscode.OutputChannel) {
+  outputChannel = channel;
+}
+
+// Helper function for logging
+export function log(message: string, error: boolean = false) {
+  const timestamp = new Date().toISOString();
+  const logMessage = `[${timestamp}] ${message}`;
+  outputChannel?.appendLine(logMessage);
+  if (error) {
+    console.error(logMessage);
+  } else {
+    console.log(logMessage);
+  }
+}
@@ -0,0 +1,42 @@
+// Format of the PCM audio SoX records (Whisper requirement)
+export const PCM_SAMPLE_RATE = 16000;
+export const PCM_CHANNELS = 1;
+export const PCM_BITS_PER_SAMPLE = 16;
+export const PCM_BYTES_PER_SECOND = (PCM_SAMPLE_RATE * PCM_CHANNELS * PCM_BITS_PER_SAMPLE) / 8;
+
+// Build a 44 byte WAV header for raw PCM data of the given length
+export function createWavHeader(dataLength: number): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = (PCM_CHANNELS * PCM_BITS_PER_SAMPLE) / 8;
+
+  header.write("RIFF", 0, "ascii");
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write("WAVE", 8, "ascii");
+  header.write("fmt ", 12, "ascii");
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(PCM_CHANNELS, 22);
+  header.writeUInt32LE(PCM_SAMPLE_RATE, 24);
+  header.writeUInt32LE(PCM_BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(PCM_BITS_PER_SAMPLE, 34);
+  header.write("data", 36, "ascii");
+  header.writeUInt32LE(dataLength, 40);
+
+  return header;
+}
+
+// Root mean square level of 16-bit little-endian samples, normalized to 0..1
+export function computeRms(pcm: Buffer): number {
+  const sampleCount = Math.floor(pcm.length / 2);
+  if (sampleCount === 0) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = pcm.readInt16LE(i * 2) / 32768;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / sampleCount);
+}
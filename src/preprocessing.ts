@@ -0,0 +1,148 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { spawn } from "child_process";
+
+import { AudioSource } from "./audioSources";
+import { log } from "./logger";
+import { getWavDuration } from "./segmentation";
+import { getSoxPath, runSox } from "./sox";
+
+// Below this level (SoX percentage of full scale) audio counts as silence for trimming
+const SILENCE_THRESHOLD = "1%";
+// Silence shorter than this is kept at the start and end, so the first and last syllables are not cut
+const SILENCE_MIN_SECONDS = "0.1";
+// Processed audio shorter than this is treated as "nothing left" and the original is sent instead
+const MIN_PROCESSED_SECONDS = 0.2;
+const NOISE_PROFILE_FILE = "noise.prof";
+
+export interface PreprocessingOptions {
+  // 0 disables the filter
+  highpassHz: number;
+  normalize: boolean;
+  // noisered amount, 0 disables noise reduction
+  noiseReduction: number;
+  // Remove silence at the start and end
+  trimSilence: boolean;
+  // Shorten pauses longer than this, 0 keeps them
+  maxSilenceSeconds: number;
+}
+
+export interface PreprocessingResult {
+  filePath: string;
+  originalSeconds: number;
+  processedSeconds: number;
+}
+
+// undefined when preprocessing is disabled
+export function getPreprocessingOptions(): PreprocessingOptions | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (!config.get<boolean>("preprocessing.enabled")) {
+    return undefined;
+  }
+  return {
+    highpassHz: Math.max(0, config.get<number>("preprocessing.highpassHz") ?? 80),
+    normalize: config.get<boolean>("preprocessing.normalize") ?? true,
+    noiseReduction: Math.min(1, Math.max(0, config.get<number>("preprocessing.noiseReduction") ?? 0.21)),
+    trimSilence: config.get<boolean>("preprocessing.trimSilence") ?? true,
+    maxSilenceSeconds: Math.max(0, config.get<number>("preprocessing.maxSilenceSeconds") ?? 1),
+  };
+}
+
+// The noise profile recorded by "Calibrate Noise", kept in the extension's global storage
+export function getNoiseProfilePath(storageDir: string): string {
+  return path.join(storageDir, NOISE_PROFILE_FILE);
+}
+
+// SoX effects for the options, in the order they are applied
+function buildEffects(options: PreprocessingOptions, noiseProfile: string | undefined): string[] {
+  const effects: string[] = [];
+  // The profile was taken from unfiltered audio, so noise is removed before anything else changes it
+  if (noiseProfile && options.noiseReduction > 0) {
+    effects.push("noisered", noiseProfile, String(options.noiseReduction));
+  }
+  if (options.highpassHz > 0) {
+    effects.push("highpass", String(options.highpassHz));
+  }
+  if (options.maxSilenceSeconds > 0) {
+    // Removes the leading silence and shortens every later pause to maxSilenceSeconds
+    effects.push("silence", "-l", "1", SILENCE_MIN_SECONDS, SILENCE_THRESHOLD, "-1", String(options.maxSilenceSeconds), SILENCE_THRESHOLD);
+  } else if (options.trimSilence) {
+    effects.push("silence", "1", SILENCE_MIN_SECONDS, SILENCE_THRESHOLD);
+  }
+  if (options.trimSilence) {
+    // Trailing silence is trimmed as leading silence of the reversed audio
+    effects.push("reverse", "silence", "1", SILENCE_MIN_SECONDS, SILENCE_THRESHOLD, "reverse");
+  }
+  // Normalize last, so the gain is based on what is actually sent
+  if (options.normalize) {
+    effects.push("norm", "-1");
+  }
+  return effects;
+}
+
+// Clean up a WAV recording before upload. The original is returned unchanged when there is nothing to do
+// or when the effects leave no audio, e.g. for a recording of silence.
+export async function preprocessRecording(
+  filePath: string,
+  options: PreprocessingOptions,
+  storageDir: string
+): Promise<PreprocessingResult> {
+  const originalSeconds = getWavDuration(filePath);
+  const profilePath = getNoiseProfilePath(storageDir);
+  const noiseProfile = fs.existsSync(profilePath) ? profilePath : undefined;
+  if (options.noiseReduction > 0 && !noiseProfile) {
+    log("Noise reduction is enabled but no noise profile was recorded yet, run \"Calibrate Noise\"");
+  }
+
+  const effects = buildEffects(options, noiseProfile);
+  if (effects.length === 0) {
+    return { filePath, originalSeconds, processedSeconds: originalSeconds };
+  }
+
+  const outputPath = filePath.replace(/\.wav$/, "-processed.wav");
+  log(`Preprocessing recording: ${effects.join(" ")}`);
+  await runSox([filePath, outputPath, ...effects], "Preprocessing");
+
+  const processedSeconds = getWavDuration(outputPath);
+  if (processedSeconds < MIN_PROCESSED_SECONDS) {
+    log("Preprocessing left no audio, sending the original recording");
+    fs.unlinkSync(outputPath);
+    return { filePath, originalSeconds, processedSeconds: originalSeconds };
+  }
+  return { filePath: outputPath, originalSeconds, processedSeconds };
+}
+
+// Record a few seconds of room tone from the audio source and save it as the noise profile
+export async function recordNoiseProfile(source: AudioSource, storageDir: string, seconds: number): Promise<string> {
+  fs.mkdirSync(storageDir, { recursive: true });
+  const profilePath = getNoiseProfilePath(storageDir);
+  const args = [...(await source.prepare()), "-n", "trim", "0", String(seconds), "noiseprof", profilePath];
+  log(`Recording noise profile from ${source.description}`);
+
+  await new Promise<void>((resolve, reject) => {
+    const soxProcess = spawn(getSoxPath(), args);
+    // Guard against sources that never deliver enough audio
+    const timeout = setTimeout(() => soxProcess.kill(), (seconds + 10) * 1000);
+
+    soxProcess.stderr.on("data", (data) => {
+      log(`Noise profile stderr: ${data}`);
+    });
+    soxProcess.on("error", (error) => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    soxProcess.on("close", (code) => {
+      clearTimeout(timeout);
+      if (code === 0 && fs.existsSync(profilePath)) {
+        resolve();
+      } else {
+        reject(new Error(`Recording the noise profile failed with code ${code}`));
+      }
+    });
+    source.start(soxProcess.stdin);
+  });
+
+  log(`Noise profile saved to ${profilePath}`);
+  return profilePath;
+}
@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import OpenAI, { AzureOpenAI } from "openai";
+
+import { log } from "./logger";
+
+// How a profile reaches its models
+export enum ProviderType {
+  OpenAI = "openai",
+  Azure = "azure",
+  // Any server implementing the OpenAI API, e.g. a company gateway
+  Compatible = "compatible",
+}
+
+// How the API key is sent
+export enum AuthScheme {
+  // Authorization: Bearer <key>
+  Bearer = "bearer",
+  // api-key: <key>, as used by Azure OpenAI
+  ApiKey = "api-key",
+  None = "none",
+}
+
+export interface ProviderProfile {
+  name: string;
+  type: ProviderType;
+  // API base URL, or the resource endpoint for Azure
+  baseUrl?: string;
+  // Azure only
+  apiVersion?: string;
+  auth: AuthScheme;
+  headers: Record<string, string>;
+  // Model names used in the settings mapped to the provider's names, e.g. Azure deployments
+  models: Record<string, string>;
+}
+
+// The profile built from whisperdictation.openaiBaseUrl, used when no other profile is active
+export const DEFAULT_PROFILE_NAME = "default";
+// SecretStorage key of the default profile's API key
+const DEFAULT_SECRET_KEY = "openai-key";
+const DEFAULT_AZURE_API_VERSION = "2025-03-01-preview";
+
+// Offered when a profile does not list its models and the provider cannot be asked
+export const DEFAULT_TRANSCRIPTION_MODELS = ["gpt-4o-mini-transcribe", "gpt-4o-transcribe", "whisper-1"];
+
+// Profile of each client created here, to map model names on requests
+const clientProfiles = new WeakMap<OpenAI, ProviderProfile>();
+
+function getDefaultProfile(): ProviderProfile {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const baseUrl = (config.get<string>("openaiBaseUrl") ?? "").trim();
+  return {
+    name: DEFAULT_PROFILE_NAME,
+    type: ProviderType.OpenAI,
+    baseUrl: baseUrl || undefined,
+    auth: AuthScheme.Bearer,
+    headers: {},
+    models: {},
+  };
+}
+
+function parseProfile(raw: Partial<ProviderProfile>): ProviderProfile | undefined {
+  const name = (raw.name ?? "").trim();
+  if (!name) {
+    return undefined;
+  }
+  const type = Object.values(ProviderType).includes(raw.type as ProviderType) ? (raw.type as ProviderType) : ProviderType.Compatible;
+  const auth = Object.values(AuthScheme).includes(raw.auth as AuthScheme)
+    ? (raw.auth as AuthScheme)
+    : type === ProviderType.Azure
+    ? AuthScheme.ApiKey
+    : AuthScheme.Bearer;
+  return {
+    name,
+    type,
+    baseUrl: (raw.baseUrl ?? "").trim() || undefined,
+    apiVersion: (raw.apiVersion ?? "").trim() || undefined,
+    auth,
+    headers: raw.headers ?? {},
+    models: raw.models ?? {},
+  };
+}
+
+// The default profile followed by the profiles in whisperdictation.profiles
+export function getProfiles(): ProviderProfile[] {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const configured = (config.get<Partial<ProviderProfile>[]>("profiles") ?? [])
+    .map(parseProfile)
+    .filter((profile): profile is ProviderProfile => profile !== undefined && profile.name !== DEFAULT_PROFILE_NAME);
+  return [getDefaultProfile(), ...configured];
+}
+
+function findProfile(name: string): ProviderProfile | undefined {
+  return getProfiles().find((profile) => profile.name === name);
+}
+
+export function getActiveProfile(): ProviderProfile {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const name = (config.get<string>("activeProfile") ?? "").trim();
+  const profile = name ? findProfile(name) : undefined;
+  if (name && !profile) {
+    log(`Provider profile "${name}" not found, using the default profile`, true);
+  }
+  return profile ?? getDefaultProfile();
+}
+
+// The profile to retry failed transcriptions with, undefined when none or the same as the active one
+export function getFallbackProfile(): ProviderProfile | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const name = (config.get<string>("fallbackProfile") ?? "").trim();
+  if (!name || name === getActiveProfile().name) {
+    return undefined;
+  }
+  const profile = findProfile(name);
+  if (!profile) {
+    log(`Fallback provider profile "${name}" not found`, true);
+  }
+  return profile;
+}
+
+export function getProfileSecretKey(profile: ProviderProfile): string {
+  return profile.name === DEFAULT_PROFILE_NAME ? DEFAULT_SECRET_KEY : `${DEFAULT_SECRET_KEY}:${profile.name}`;
+}
+
+export function describeProfile(profile: ProviderProfile): string {
+  switch (profile.type) {
+    case ProviderType.Azure:
+      return `Azure OpenAI ${profile.baseUrl ?? ""}`.trim();
+    case ProviderType.Compatible:
+      return `OpenAI-compatible ${profile.baseUrl ?? ""}`.trim();
+    case ProviderType.OpenAI:
+    default:
+      return profile.baseUrl ? `OpenAI via ${profile.baseUrl}` : "OpenAI";
+  }
+}
+
+// The provider's name for a model, e.g. the Azure deployment
+export function mapModel(profile: ProviderProfile, model: string): string {
+  return profile.models[model] || model;
+}
+
+// The provider's name for a model requested through a client created by createProviderClient
+export function providerModel(client: OpenAI, model: string): string {
+  const profile = clientProfiles.get(client);
+  return profile ? mapModel(profile, model) : model;
+}
+
+export function createProviderClient(profile: ProviderProfile, apiKey: string): OpenAI {
+  // null removes a header the SDK would send, so only the configured scheme reaches the server
+  const headers: Record<string, string | null> = { ...profile.headers };
+  if (profile.type !== ProviderType.Azure) {
+    if (profile.auth === AuthScheme.ApiKey) {
+      headers["api-key"] = apiKey;
+      headers.Authorization = null;
+    } else if (profile.auth === AuthScheme.None) {
+      headers.Authorization = null;
+    }
+  }
+
+  const client =
+    profile.type === ProviderType.Azure
+      ? new AzureOpenAI({
+          endpoint: profile.baseUrl,
+          apiKey,
+          apiVersion: profile.apiVersion ?? DEFAULT_AZURE_API_VERSION,
+          defaultHeaders: headers,
+        })
+      : new OpenAI({
+          // The SDK refuses to start without a key, even when the server needs none
+          apiKey: apiKey || "unused",
+          baseURL: profile.baseUrl,
+          defaultHeaders: headers,
+        });
+  clientProfiles.set(client, profile);
+  return client;
+}
+
+// Transcription models offered for a profile: its model mapping, else what the provider lists, else the OpenAI models
+export async function listProfileModels(profile: ProviderProfile, client?: OpenAI): Promise<string[]> {
+  const mapped = Object.keys(profile.models);
+  if (mapped.length > 0) {
+    return mapped;
+  }
+  if (client && profile.type !== ProviderType.Azure) {
+    try {
+      const models: string[] = [];
+      for await (const model of client.models.list()) {
+        models.push(model.id);
+      }
+      const transcription = models.filter((id) => /whisper|transcrib/i.test(id)).sort();
+      if (transcription.length > 0) {
+        return transcription;
+      }
+    } catch (error) {
+      log(`Could not list models of profile "${profile.name}": ${error}`);
+    }
+  }
+  return DEFAULT_TRANSCRIPTION_MODELS;
+}
@@ -0,0 +1,182 @@
+import * as WebSocket from "ws";
+
+import { log } from "./logger";
+
+// The realtime API only accepts 24kHz mono PCM16
+export const REALTIME_SAMPLE_RATE = 24000;
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const CONNECT_TIMEOUT_MS = 15000;
+
+export interface RealtimeTranscriptionOptions {
+  apiKey: string;
+  baseUrl?: string;
+  model: string;
+  language?: string;
+  prompt?: string;
+  silenceDurationMs: number;
+}
+
+export interface RealtimeTranscriptionEvents {
+  onCommitted(itemId: string, previousItemId: string | undefined): void;
+  onDelta(itemId: string, delta: string): void;
+  onCompleted(itemId: string, transcript: string): void;
+  onError(message: string): void;
+  onClose(): void;
+}
+
+interface RealtimeErrorDetail {
+  code?: string;
+  message?: string;
+}
+
+// Server events the client reacts to; all others are ignored
+type RealtimeServerEvent =
+  | { type: "input_audio_buffer.committed"; item_id: string; previous_item_id?: string | null }
+  | { type: "conversation.item.input_audio_transcription.delta"; item_id: string; delta?: string }
+  | { type: "conversation.item.input_audio_transcription.completed"; item_id: string; transcript?: string }
+  | { type: "conversation.item.input_audio_transcription.failed"; item_id: string; error?: RealtimeErrorDetail }
+  | { type: "error"; error?: RealtimeErrorDetail };
+
+function isServerEvent(value: unknown): value is RealtimeServerEvent {
+  return typeof value === "object" && value !== null && typeof (value as { type?: unknown }).type === "string";
+}
+
+// Map the REST base URL (e.g. https://api.openai.com/v1) to the realtime WebSocket endpoint
+export function getRealtimeUrl(baseUrl: string | undefined): string {
+  const url = new URL((baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "") + "/realtime");
+  url.protocol = url.protocol === "http:" ? "ws:" : "wss:";
+  url.searchParams.set("intent", "transcription");
+  return url.toString();
+}
+
+// Minimal client for a realtime transcription session
+export class RealtimeTranscriptionClient {
+  private socket: WebSocket | undefined;
+
+  constructor(private readonly options: RealtimeTranscriptionOptions, private readonly events: RealtimeTranscriptionEvents) {}
+
+  connect(): Promise<void> {
+    const url = getRealtimeUrl(this.options.baseUrl);
+    log(`Connecting to realtime transcription endpoint: ${url}`);
+
+    return new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(url, {
+        headers: {
+          Authorization: `Bearer ${this.options.apiKey}`,
+          "OpenAI-Beta": "realtime=v1",
+        },
+      });
+      this.socket = socket;
+      let connected = false;
+
+      const timeout = setTimeout(() => {
+        log("Timed out connecting to the realtime transcription endpoint", true);
+        socket.terminate();
+        reject(new Error(`No connection to the realtime transcription endpoint after ${CONNECT_TIMEOUT_MS / 1000}s`));
+      }, CONNECT_TIMEOUT_MS);
+
+      socket.once("open", () => {
+        clearTimeout(timeout);
+        connected = true;
+        log("Realtime transcription session connected");
+        this.send({
+          type: "transcription_session.update",
+          session: {
+            input_audio_format: "pcm16",
+            input_audio_transcription: {
+              model: this.options.model,
+              ...(this.options.language ? { language: this.options.language } : {}),
+              ...(this.options.prompt ? { prompt: this.options.prompt } : {}),
+            },
+            turn_detection: {
+              type: "server_vad",
+              silence_duration_ms: this.options.silenceDurationMs,
+            },
+          },
+        });
+        resolve();
+      });
+
+      // Kept for the whole session: an error event without a listener would be thrown in the extension host
+      socket.on("error", (error) => {
+        log(`Realtime transcription socket error: ${error}`, true);
+        if (connected) {
+          this.events.onError(error.message);
+        } else {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      });
+
+      socket.on("message", (data) => this.handleMessage(data.toString()));
+
+      socket.on("close", (code, reason) => {
+        log(`Realtime transcription socket closed with code ${code} ${reason}`);
+        this.socket = undefined;
+        this.events.onClose();
+      });
+    });
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  appendAudio(pcm: Buffer) {
+    this.send({ type: "input_audio_buffer.append", audio: pcm.toString("base64") });
+  }
+
+  // Force the server to close the current turn, used when recording stops mid-sentence
+  commit() {
+    this.send({ type: "input_audio_buffer.commit" });
+  }
+
+  close() {
+    this.socket?.close();
+    this.socket = undefined;
+  }
+
+  private send(event: object) {
+    const socket = this.socket;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(event));
+    }
+  }
+
+  private handleMessage(raw: string) {
+    let event: unknown;
+    try {
+      event = JSON.parse(raw);
+    } catch {
+      log(`Ignoring malformed realtime event: ${raw}`, true);
+      return;
+    }
+    if (!isServerEvent(event)) {
+      log(`Ignoring realtime event without a type: ${raw}`, true);
+      return;
+    }
+
+    switch (event.type) {
+      case "input_audio_buffer.committed":
+        this.events.onCommitted(event.item_id, event.previous_item_id ?? undefined);
+        break;
+      case "conversation.item.input_audio_transcription.delta":
+        this.events.onDelta(event.item_id, event.delta ?? "");
+        break;
+      case "conversation.item.input_audio_transcription.completed":
+        this.events.onCompleted(event.item_id, event.transcript ?? "");
+        break;
+      case "conversation.item.input_audio_transcription.failed":
+        this.events.onError(event.error?.message ?? "Transcription failed");
+        this.events.onCompleted(event.item_id, "");
+        break;
+      case "error":
+        // Committing an empty buffer on stop is expected when the last turn already closed
+        if (event.error?.code !== "input_audio_buffer_commit_empty") {
+          this.events.onError(event.error?.message ?? "Unknown realtime error");
+        }
+        break;
+    }
+  }
+}
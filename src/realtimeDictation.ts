@@ -0,0 +1,192 @@
+import * as vscode from "vscode";
+
+import { AnchoredInserter } from "./anchoredInserter";
+import { log } from "./logger";
+import { RealtimeTranscriptionClient, RealtimeTranscriptionOptions } from "./realtime";
+
+// How long to wait for outstanding turns after recording stops
+const FINISH_TIMEOUT_MILLISECONDS = 10000;
+// Quiet period after the last server event before the session counts as drained
+const FINISH_SETTLE_MILLISECONDS = 500;
+
+// Streams audio into a realtime transcription session, shows partial text as ghost text
+// and inserts the final text of each completed turn at the position where dictation started
+export class RealtimeDictationSession implements vscode.Disposable {
+  private readonly client: RealtimeTranscriptionClient;
+  private readonly inserter: AnchoredInserter;
+  private readonly ghostText = vscode.window.createTextEditorDecorationType({
+    after: {
+      color: new vscode.ThemeColor("editorGhostText.foreground"),
+      fontStyle: "italic",
+    },
+  });
+  // Turns in speaking order that have not been inserted yet
+  private readonly turns: string[] = [];
+  private readonly partials = new Map<string, string>();
+  private readonly completed = new Map<string, string>();
+  private insertion: Promise<void> = Promise.resolve();
+  private lastEventTime = Date.now();
+  private connected = false;
+  private finishing = false;
+  private disposed = false;
+
+  private constructor(
+    options: RealtimeTranscriptionOptions,
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    private readonly onDidChangePending: (pending: number) => void,
+    private readonly onDidDisconnect: () => void
+  ) {
+    this.inserter = new AnchoredInserter(document, position);
+    this.client = new RealtimeTranscriptionClient(options, {
+      onCommitted: (itemId, previousItemId) => this.handleCommitted(itemId, previousItemId),
+      onDelta: (itemId, delta) => this.handleDelta(itemId, delta),
+      onCompleted: (itemId, transcript) => this.handleCompleted(itemId, transcript),
+      onError: (message) => {
+        this.lastEventTime = Date.now();
+        log(`Realtime transcription error: ${message}`, true);
+        vscode.window.showWarningMessage(`Realtime dictation: ${message}`);
+      },
+      onClose: () => {
+        this.renderGhostText();
+        // The server or the network ended the session while audio was still being sent
+        if (this.connected && !this.finishing && !this.disposed) {
+          this.onDidDisconnect();
+        }
+      },
+    });
+  }
+
+  static async start(
+    options: RealtimeTranscriptionOptions,
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    onDidChangePending: (pending: number) => void,
+    onDidDisconnect: () => void
+  ): Promise<RealtimeDictationSession> {
+    const session = new RealtimeDictationSession(options, document, position, onDidChangePending, onDidDisconnect);
+    try {
+      await session.client.connect();
+      session.connected = true;
+    } catch (error) {
+      session.dispose();
+      throw error;
+    }
+    return session;
+  }
+
+  get pending(): number {
+    return this.turns.length;
+  }
+
+  write(pcm: Buffer) {
+    this.client.appendAudio(pcm);
+  }
+
+  // Close the last turn and wait until every turn has been inserted
+  async finish(): Promise<string> {
+    this.finishing = true;
+    this.lastEventTime = Date.now();
+    this.client.commit();
+
+    const deadline = Date.now() + FINISH_TIMEOUT_MILLISECONDS;
+    while (Date.now() < deadline && this.client.isOpen) {
+      if (this.turns.length === 0 && Date.now() - this.lastEventTime >= FINISH_SETTLE_MILLISECONDS) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (this.turns.length > 0) {
+      log(`Realtime session finished with ${this.turns.length} turn(s) still pending`, true);
+    }
+
+    await this.insertion;
+    await this.inserter.deliverRemaining();
+    return this.inserter.text;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.client.close();
+    this.ghostText.dispose();
+    this.inserter.dispose();
+  }
+
+  private handleCommitted(itemId: string, previousItemId: string | undefined) {
+    this.lastEventTime = Date.now();
+    if (this.turns.includes(itemId)) {
+      return;
+    }
+
+    const previousIndex = previousItemId ? this.turns.indexOf(previousItemId) : -1;
+    if (previousIndex >= 0) {
+      this.turns.splice(previousIndex + 1, 0, itemId);
+    } else {
+      this.turns.push(itemId);
+    }
+    this.onDidChangePending(this.turns.length);
+  }
+
+  private handleDelta(itemId: string, delta: string) {
+    this.lastEventTime = Date.now();
+    if (!this.turns.includes(itemId)) {
+      this.handleCommitted(itemId, undefined);
+    }
+    this.partials.set(itemId, (this.partials.get(itemId) ?? "") + delta);
+    this.renderGhostText();
+  }
+
+  private handleCompleted(itemId: string, transcript: string) {
+    this.lastEventTime = Date.now();
+    if (!this.turns.includes(itemId)) {
+      this.handleCommitted(itemId, undefined);
+    }
+    this.completed.set(itemId, transcript.trim());
+
+    // Insert completed turns strictly in speaking order
+    while (this.turns.length > 0 && this.completed.has(this.turns[0])) {
+      const turn = this.turns.shift()!;
+      const text = this.completed.get(turn)!;
+      this.completed.delete(turn);
+      this.partials.delete(turn);
+
+      if (text) {
+        this.insertion = this.insertion.then(() => (this.disposed ? undefined : this.inserter.insert(text)));
+      }
+    }
+
+    this.onDidChangePending(this.turns.length);
+    void this.insertion.then(() => this.renderGhostText());
+  }
+
+  // Show the partial text of turns that are still being transcribed after the insertion point
+  private renderGhostText() {
+    if (this.disposed) {
+      return;
+    }
+
+    const position = this.inserter.position;
+    const partialText = this.turns
+      .map((turn) => this.partials.get(turn) ?? "")
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    for (const editor of vscode.window.visibleTextEditors) {
+      if (editor.document !== this.inserter.document) {
+        continue;
+      }
+      if (!position || !partialText || !this.client.isOpen) {
+        editor.setDecorations(this.ghostText, []);
+        continue;
+      }
+      editor.setDecorations(this.ghostText, [
+        {
+          range: new vscode.Range(position, position),
+          renderOptions: { after: { contentText: (this.inserter.text ? " " : "") + partialText } },
+        },
+      ]);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+
+import { PCM_BYTES_PER_SECOND, computeRms } from "./pcm";
+
+// Audio read from the end of the recording for each level update
+const LEVEL_WINDOW_BYTES = Math.round(PCM_BYTES_PER_SECOND * 0.1) & ~1;
+const WAV_HEADER_BYTES = 44;
+// How long to wait for any sound before warning about a silent microphone
+const NO_INPUT_WARNING_SECONDS = 4;
+const METER_SEGMENTS = 5;
+const METER_FLOOR_DB = -60;
+
+export interface RecordingLimits {
+  // 0 disables the limit
+  maxRecordingSeconds: number;
+  // Stop after this much silence following speech, 0 disables it
+  autoStopOnSilenceSeconds: number;
+  silenceThreshold: number;
+}
+
+// Reasons the monitor asks the extension to act while recording
+export enum RecordingEvent {
+  NoInput = "noInput",
+  MaxDurationReached = "maxDurationReached",
+  SilenceTimeout = "silenceTimeout",
+}
+
+export function getRecordingLimits(): RecordingLimits {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return {
+    maxRecordingSeconds: Math.max(0, config.get<number>("maxRecordingSeconds") ?? 1800),
+    autoStopOnSilenceSeconds: Math.max(0, config.get<number>("autoStopOnSilenceSeconds") ?? 0),
+    silenceThreshold: config.get<number>("live.silenceThreshold") ?? 0.01,
+  };
+}
+
+// Tracks elapsed time and input level of a recording and decides when it should stop
+export class RecordingMonitor {
+  private readonly startedAt = Date.now();
+  private lastSoundAt = Date.now();
+  private heardSound = false;
+  private noInputReported = false;
+  private currentLevel = 0;
+
+  constructor(private readonly limits: RecordingLimits) {}
+
+  get elapsedSeconds(): number {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+
+  // RMS level of the most recent audio, 0..1
+  get level(): number {
+    return this.currentLevel;
+  }
+
+  // Update the level from PCM streamed by SoX
+  feed(pcm: Buffer) {
+    this.currentLevel = computeRms(pcm);
+    if (this.currentLevel >= this.limits.silenceThreshold) {
+      this.heardSound = true;
+      this.lastSoundAt = Date.now();
+    }
+  }
+
+  // Update the level from the end of a WAV file SoX is still writing
+  sampleFile(filePath: string) {
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(filePath, "r");
+      const size = fs.fstatSync(fd).size;
+      const dataBytes = (size - WAV_HEADER_BYTES) & ~1;
+      if (dataBytes <= 0) {
+        return;
+      }
+      const length = Math.min(LEVEL_WINDOW_BYTES, dataBytes);
+      const buffer = Buffer.alloc(length);
+      fs.readSync(fd, buffer, 0, length, WAV_HEADER_BYTES + dataBytes - length);
+      this.feed(buffer);
+    } catch {
+      // The file may not exist yet right after SoX starts
+    } finally {
+      if (fd !== undefined) {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  // Called periodically; returns an event when the recording needs attention
+  check(): RecordingEvent | undefined {
+    const elapsed = this.elapsedSeconds;
+    if (this.limits.maxRecordingSeconds > 0 && elapsed >= this.limits.maxRecordingSeconds) {
+      return RecordingEvent.MaxDurationReached;
+    }
+    if (
+      this.limits.autoStopOnSilenceSeconds > 0 &&
+      this.heardSound &&
+      Date.now() - this.lastSoundAt >= this.limits.autoStopOnSilenceSeconds * 1000
+    ) {
+      return RecordingEvent.SilenceTimeout;
+    }
+    if (!this.heardSound && !this.noInputReported && elapsed >= NO_INPUT_WARNING_SECONDS) {
+      this.noInputReported = true;
+      return RecordingEvent.NoInput;
+    }
+    return undefined;
+  }
+
+  // Elapsed time and a level meter for the status bar, e.g. "1:05 ███░░"
+  describe(): string {
+    const seconds = Math.floor(this.elapsedSeconds);
+    const elapsed = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+    const db = this.currentLevel > 0 ? 20 * Math.log10(this.currentLevel) : METER_FLOOR_DB;
+    const filled = Math.round(Math.min(1, Math.max(0, 1 - db / METER_FLOOR_DB)) * METER_SEGMENTS);
+    return `${elapsed} ${"█".repeat(filled)}${"░".repeat(METER_SEGMENTS - filled)}`;
+  }
+}
@@ -0,0 +1,333 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import OpenAI from "openai";
+
+import { HttpStatusError } from "./backends";
+import { log } from "./logger";
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const MAX_AUTOMATIC_ATTEMPTS = 8;
+// Recordings in the temp directory younger than this may still belong to another window
+const ORPHAN_MIN_AGE_MS = 5 * 60 * 1000;
+// Another window holding an entry for longer than this is assumed to be gone; far longer than any transcription
+const LEASE_TIMEOUT_MS = 30 * 60 * 1000;
+const INDEX_FILE = "queue.json";
+// Recordings as written by SoX, after preprocessing, or encoded for upload
+const ORPHAN_PATTERN = /^recording-\d+(-processed)?(-opus)?\.(wav|flac|ogg|mp3)$/;
+
+// A recording whose transcription failed, kept until it is transcribed or discarded
+export interface QueuedRecording {
+  id: string;
+  // File name inside the queue directory
+  audioFile: string;
+  createdAt: number;
+  attempts: number;
+  lastError: string;
+  // Whether the queue retries on its own; cancelled and recovered recordings wait for the user
+  autoRetry: boolean;
+  nextAttemptAt?: number;
+}
+
+// Whether a failure is likely to go away by itself, and how long the server asked us to wait
+export function classifyFailure(error: unknown): { transient: boolean; retryAfterMs?: number } {
+  let status: number | undefined;
+  let retryAfter: string | null | undefined;
+
+  if (error instanceof OpenAI.APIConnectionError) {
+    return { transient: true };
+  } else if (error instanceof OpenAI.APIError) {
+    status = error.status;
+    retryAfter = error.headers?.["retry-after"];
+  } else if (error instanceof HttpStatusError) {
+    status = error.status;
+    retryAfter = error.retryAfter;
+  } else if (error instanceof Error) {
+    const code = (error as NodeJS.ErrnoException).code ?? "";
+    return { transient: ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"].includes(code) };
+  }
+
+  if (status === undefined) {
+    return { transient: false };
+  }
+  return { transient: status === 408 || status === 429 || status >= 500, retryAfterMs: parseRetryAfter(retryAfter) };
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Failed recordings persisted under global storage and retried with exponential backoff.
+// Every window has its own queue object over the same files: changes are made to the index as it is on disk,
+// and a lease file per entry keeps two windows from transcribing the same recording.
+export class RetryQueue implements vscode.Disposable {
+  private readonly queueDir: string;
+  private readonly indexPath: string;
+  private items: QueuedRecording[] = [];
+  private timer: NodeJS.Timeout | undefined;
+  private retrying = false;
+  private watcher: fs.FSWatcher | undefined;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.changeEmitter.event;
+
+  // The processor transcribes a queued recording and delivers the text; it throws when that fails
+  constructor(storageDir: string, private readonly processor: (entry: QueuedRecording, audioPath: string) => Promise<void>) {
+    this.queueDir = path.join(storageDir, "queue");
+    this.indexPath = path.join(this.queueDir, INDEX_FILE);
+    fs.mkdirSync(this.queueDir, { recursive: true });
+
+    this.update((items) => items.filter((entry) => fs.existsSync(this.getAudioPath(entry))));
+
+    // Pick up entries that other windows added, retried or removed
+    try {
+      this.watcher = fs.watch(this.queueDir, (_event, fileName) => {
+        if (fileName === INDEX_FILE) {
+          this.reload();
+        }
+      });
+    } catch (error) {
+      log(`Could not watch the retry queue for changes from other windows: ${error}`, true);
+    }
+  }
+
+  get entries(): readonly QueuedRecording[] {
+    return this.items;
+  }
+
+  getAudioPath(entry: QueuedRecording): string {
+    return path.join(this.queueDir, entry.audioFile);
+  }
+
+  // Whether another window is transcribing the entry right now
+  isLeased(entry: QueuedRecording): boolean {
+    try {
+      return Date.now() - fs.statSync(this.getLeasePath(entry)).mtimeMs < LEASE_TIMEOUT_MS;
+    } catch {
+      return false;
+    }
+  }
+
+  // Move a recording into the queue so the caller's cleanup cannot delete it
+  enqueue(filePath: string, error: unknown, autoRetry: boolean): QueuedRecording | undefined {
+    const createdAt = Date.now();
+    const id = `${createdAt}-${Math.random().toString(36).slice(2, 8)}`;
+    const entry: QueuedRecording = {
+      id,
+      audioFile: `${id}${path.extname(filePath)}`,
+      createdAt,
+      attempts: 0,
+      lastError: error instanceof Error ? error.message : String(error),
+      autoRetry,
+    };
+
+    try {
+      moveFile(filePath, this.getAudioPath(entry));
+    } catch (moveError) {
+      log(`Could not move recording into the retry queue: ${moveError}`, true);
+      return undefined;
+    }
+
+    this.scheduleAttempt(entry, error);
+    this.update((items) => [...items, entry]);
+    log(`Recording queued for retry: ${entry.audioFile} (${entry.lastError})`);
+    return entry;
+  }
+
+  remove(entry: QueuedRecording) {
+    try {
+      fs.rmSync(this.getAudioPath(entry), { force: true });
+    } catch (error) {
+      log(`Error deleting queued recording: ${error}`, true);
+    }
+    this.update((items) => items.filter((item) => item.id !== entry.id));
+  }
+
+  // Transcribe a queued recording now; the entry stays queued if it fails again.
+  // Returns false without trying when another window holds the entry or has already removed it.
+  async retry(entry: QueuedRecording, processor = this.processor): Promise<boolean> {
+    if (!this.acquireLease(entry)) {
+      log(`Skipping retry of ${entry.audioFile}, another window is transcribing it`);
+      return false;
+    }
+
+    try {
+      this.reload();
+      if (!this.items.some((item) => item.id === entry.id)) {
+        log(`Skipping retry of ${entry.audioFile}, it is no longer queued`);
+        return false;
+      }
+
+      await processor(entry, this.getAudioPath(entry));
+      this.remove(entry);
+      return true;
+    } catch (error) {
+      this.update((items) =>
+        items.map((item) => {
+          if (item.id !== entry.id) {
+            return item;
+          }
+          item.attempts++;
+          item.lastError = error instanceof Error ? error.message : String(error);
+          this.scheduleAttempt(item, error);
+          // Callers report the error from the entry they passed in
+          Object.assign(entry, item);
+          return item;
+        })
+      );
+      log(`Retry of ${entry.audioFile} failed (attempt ${entry.attempts}): ${entry.lastError}`, true);
+      return false;
+    } finally {
+      fs.rmSync(this.getLeasePath(entry), { force: true });
+    }
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.watcher?.close();
+    this.watcher = undefined;
+    this.changeEmitter.dispose();
+  }
+
+  private getLeasePath(entry: QueuedRecording): string {
+    return path.join(this.queueDir, `${entry.id}.lease`);
+  }
+
+  // Create the entry's lease file; a lease older than the timeout belongs to a window that went away and is taken over
+  private acquireLease(entry: QueuedRecording): boolean {
+    const leasePath = this.getLeasePath(entry);
+    if (fs.existsSync(leasePath) && !this.isLeased(entry)) {
+      log(`Taking over the stale lease of ${entry.audioFile}`);
+      fs.rmSync(leasePath, { force: true });
+    }
+    try {
+      fs.writeFileSync(leasePath, String(process.pid), { flag: "wx" });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        log(`Could not create lease for ${entry.audioFile}: ${error}`, true);
+      }
+      return false;
+    }
+  }
+
+  private scheduleAttempt(entry: QueuedRecording, error: unknown) {
+    const { transient, retryAfterMs } = classifyFailure(error);
+    if (!entry.autoRetry || !transient || entry.attempts >= MAX_AUTOMATIC_ATTEMPTS) {
+      entry.autoRetry = false;
+      entry.nextAttemptAt = undefined;
+      return;
+    }
+    const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** entry.attempts);
+    entry.nextAttemptAt = Date.now() + Math.max(backoff, retryAfterMs ?? 0);
+  }
+
+  // Wake up for the earliest automatic retry
+  private armTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const due = this.items.filter((entry) => entry.autoRetry && entry.nextAttemptAt !== undefined);
+    if (due.length === 0 || this.retrying) {
+      return;
+    }
+
+    const next = Math.min(...due.map((entry) => entry.nextAttemptAt ?? 0));
+    this.timer = setTimeout(() => void this.runDueRetries(), Math.max(0, next - Date.now()));
+  }
+
+  private async runDueRetries() {
+    this.timer = undefined;
+    this.retrying = true;
+    try {
+      this.reload();
+      const now = Date.now();
+      for (const entry of [...this.items]) {
+        if (entry.autoRetry && entry.nextAttemptAt !== undefined && entry.nextAttemptAt <= now) {
+          await this.retry(entry);
+        }
+      }
+    } finally {
+      this.retrying = false;
+      this.armTimer();
+    }
+  }
+
+  // The index as other windows left it, undefined when it cannot be read
+  private load(): QueuedRecording[] | undefined {
+    try {
+      return fs.existsSync(this.indexPath) ? JSON.parse(fs.readFileSync(this.indexPath, "utf8")) : [];
+    } catch (error) {
+      log(`Could not read retry queue: ${error}`, true);
+      return undefined;
+    }
+  }
+
+  private reload() {
+    this.items = this.load() ?? this.items;
+    this.armTimer();
+    this.changeEmitter.fire();
+  }
+
+  // Apply a change to the index as it is on disk, so changes from other windows are kept
+  private update(change: (items: QueuedRecording[]) => QueuedRecording[]) {
+    this.items = change(this.load() ?? this.items);
+    // Written to a temporary file and renamed, so other windows never read a half-written index
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(this.items, null, 2));
+      fs.renameSync(tempPath, this.indexPath);
+    } catch (error) {
+      log(`Could not save retry queue: ${error}`, true);
+    }
+    this.armTimer();
+    this.changeEmitter.fire();
+  }
+}
+
+// Rename, falling back to copy and delete when the queue is on another drive than the temp directory
+function moveFile(source: string, target: string) {
+  try {
+    fs.renameSync(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw error;
+    }
+    fs.copyFileSync(source, target);
+    fs.unlinkSync(source);
+  }
+}
+
+// Recordings left in the temp directory by a window that crashed before transcribing them
+export function findOrphanedRecordings(): string[] {
+  const tmpDir = os.tmpdir();
+  const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+  try {
+    return fs
+      .readdirSync(tmpDir)
+      .filter((name) => ORPHAN_PATTERN.test(name))
+      .map((name) => path.join(tmpDir, name))
+      .filter((filePath) => {
+        const stats = fs.statSync(filePath);
+        return stats.size > 44 && stats.mtimeMs < cutoff;
+      });
+  } catch (error) {
+    log(`Could not scan for orphaned recordings: ${error}`, true);
+    return [];
+  }
+}
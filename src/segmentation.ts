@@ -0,0 +1,247 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { TranscriptionBackend, TranscriptionRequest } from "./backends";
+import { log } from "./logger";
+import { runSox } from "./sox";
+
+// Amplitude below which audio counts as silence when splitting
+const SILENCE_THRESHOLD = "1%";
+// Number of characters from the previous segment passed on as prompt
+const PROMPT_TAIL_CHARACTERS = 200;
+// Pieces shorter than this are SoX artefacts at the end of the file
+const MIN_PIECE_SECONDS = 0.1;
+
+export interface SegmentationOptions {
+  maxSegmentSeconds: number;
+  minSilenceSeconds: number;
+  concurrency: number;
+  // Turns a WAV segment into the file to upload, e.g. a compressed copy; undefined to send WAV
+  encodeUpload?: (wavPath: string) => Promise<string>;
+}
+
+export interface AudioPiece {
+  filePath: string;
+  duration: number;
+}
+
+// Read segmentation settings, undefined when segmentation is disabled
+export function getSegmentationOptions(): SegmentationOptions | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (!(config.get<boolean>("segmentation.enabled") ?? true)) {
+    return undefined;
+  }
+
+  return {
+    maxSegmentSeconds: Math.max(30, config.get<number>("segmentation.maxSegmentSeconds") ?? 300),
+    minSilenceSeconds: Math.max(0.2, config.get<number>("segmentation.minSilenceSeconds") ?? 0.7),
+    concurrency: Math.max(1, Math.min(4, config.get<number>("segmentation.concurrency") ?? 1)),
+  };
+}
+
+// Duration of a PCM WAV file computed from its header
+export function getWavDuration(filePath: string): number {
+  const fd = fs.openSync(filePath, "r");
+  try {
+    const header = Buffer.alloc(44);
+    fs.readSync(fd, header, 0, 44, 0);
+    const byteRate = header.readUInt32LE(28);
+    const size = fs.fstatSync(fd).size;
+    return byteRate > 0 ? Math.max(0, size - 44) / byteRate : 0;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Whether a recording is long enough to be split before transcription
+export function shouldSegment(filePath: string, options: SegmentationOptions | undefined): boolean {
+  if (!options || path.extname(filePath).toLowerCase() !== ".wav") {
+    return false;
+  }
+  return getWavDuration(filePath) > options.maxSegmentSeconds;
+}
+
+// Split a long recording at pauses, transcribe the segments and stitch the text back together
+export async function transcribeInSegments(
+  backend: TranscriptionBackend,
+  request: TranscriptionRequest,
+  options: SegmentationOptions,
+  onProgress?: (completed: number, total: number) => void
+): Promise<string> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "whisperdictation-segments-"));
+  // Aborted by the caller's signal or by the first failed segment
+  const abortController = new AbortController();
+  const onAbort = () => abortController.abort();
+  if (request.signal?.aborted) {
+    abortController.abort();
+  }
+  request.signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const segments = await splitIntoSegments(request.filePath, workDir, options);
+    log(`Recording split into ${segments.length} segment(s)`);
+
+    if (segments.length === 0) {
+      return "";
+    }
+
+    const results: (string | undefined)[] = new Array(segments.length).fill(undefined);
+    let nextIndex = 0;
+    let completed = 0;
+    let failure: unknown;
+    onProgress?.(0, segments.length);
+
+    const worker = async () => {
+      while (nextIndex < segments.length) {
+        const index = nextIndex++;
+        if (abortController.signal.aborted) {
+          const error = new Error("Segmented transcription aborted");
+          error.name = "AbortError";
+          throw error;
+        }
+
+        const filePath = options.encodeUpload ? await options.encodeUpload(segments[index].filePath) : segments[index].filePath;
+
+        // Prompt with the tail of the previous segment when it is already available, which is always the case with one worker
+        const previousText = index > 0 ? results[index - 1] : undefined;
+        const prompt = buildContinuationPrompt(request.prompt, previousText);
+
+        log(`Transcribing segment ${index + 1}/${segments.length} (${segments[index].duration.toFixed(1)}s)`);
+        results[index] = (await backend.transcribe({ ...request, filePath, prompt, signal: abortController.signal })).trim();
+
+        completed++;
+        onProgress?.(completed, segments.length);
+      }
+    };
+
+    // A failed segment stops the other workers, so they send no more requests for a transcript that is lost anyway
+    const runWorker = async () => {
+      try {
+        await worker();
+      } catch (error) {
+        if (!failure) {
+          failure = error;
+        }
+        abortController.abort();
+      }
+    };
+
+    // Wait for every worker before the segments are deleted
+    await Promise.all(Array.from({ length: Math.min(options.concurrency, segments.length) }, () => runWorker()));
+    if (failure) {
+      throw failure;
+    }
+
+    return results.filter((text) => text).join(" ");
+  } finally {
+    request.signal?.removeEventListener("abort", onAbort);
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
+
+// Cut a WAV file into consecutive chunks without dropping silence, so each chunk starts where the previous one ended
+export async function splitIntoChunks(filePath: string, workDir: string, maxChunkSeconds: number): Promise<AudioPiece[]> {
+  const piece = { filePath, duration: getWavDuration(filePath) };
+  return piece.duration > maxChunkSeconds ? splitAtInterval(piece, workDir, maxChunkSeconds) : [piece];
+}
+
+// Append the tail of the previously transcribed text to the prompt for continuity
+export function buildContinuationPrompt(basePrompt: string | undefined, previousText: string | undefined): string | undefined {
+  if (!previousText) {
+    return basePrompt;
+  }
+
+  let tail = previousText.slice(-PROMPT_TAIL_CHARACTERS);
+  if (tail.length < previousText.length) {
+    // Start the tail at a word boundary
+    tail = tail.slice(tail.indexOf(" ") + 1);
+  }
+  return basePrompt ? `${basePrompt} ${tail}` : tail;
+}
+
+// Split at silences with SoX, then regroup the pieces into segments no longer than the limit
+async function splitIntoSegments(filePath: string, workDir: string, options: SegmentationOptions): Promise<AudioPiece[]> {
+  const pieces = await splitOnSilence(filePath, workDir, options);
+  const segments: AudioPiece[] = [];
+  let group: AudioPiece[] = [];
+  let groupDuration = 0;
+
+  const flush = async () => {
+    if (group.length > 0) {
+      segments.push(await concatenatePieces(group, path.join(workDir, `segment-${segments.length}.wav`)));
+      group = [];
+      groupDuration = 0;
+    }
+  };
+
+  for (const piece of pieces) {
+    // A piece without any pause long enough to split on is cut at fixed intervals
+    const parts = piece.duration > options.maxSegmentSeconds ? await splitAtInterval(piece, workDir, options.maxSegmentSeconds) : [piece];
+
+    for (const part of parts) {
+      if (groupDuration + part.duration > options.maxSegmentSeconds) {
+        await flush();
+      }
+      group.push(part);
+      groupDuration += part.duration;
+    }
+  }
+  await flush();
+
+  return segments;
+}
+
+async function splitOnSilence(filePath: string, workDir: string, options: SegmentationOptions): Promise<AudioPiece[]> {
+  const prefix = path.join(workDir, "piece");
+  await runSox(
+    [
+      filePath,
+      `${prefix}.wav`,
+      // Drop leading silence, end a piece after minSilenceSeconds of silence, then start a new file
+      "silence",
+      "1",
+      "0.1",
+      SILENCE_THRESHOLD,
+      "1",
+      String(options.minSilenceSeconds),
+      SILENCE_THRESHOLD,
+      ":",
+      "newfile",
+      ":",
+      "restart",
+    ],
+    "Silence split"
+  );
+  return listPieces(workDir, "piece");
+}
+
+async function splitAtInterval(piece: AudioPiece, workDir: string, seconds: number): Promise<AudioPiece[]> {
+  const name = path.basename(piece.filePath, ".wav");
+  await runSox([piece.filePath, path.join(workDir, `${name}-part.wav`), "trim", "0", String(seconds), ":", "newfile", ":", "restart"], "Interval split");
+  return listPieces(workDir, `${name}-part`);
+}
+
+async function concatenatePieces(pieces: AudioPiece[], outputPath: string): Promise<AudioPiece> {
+  const duration = pieces.reduce((total, piece) => total + piece.duration, 0);
+  if (pieces.length === 1) {
+    return { filePath: pieces[0].filePath, duration };
+  }
+  await runSox([...pieces.map((piece) => piece.filePath), outputPath], "Segment concatenation");
+  return { filePath: outputPath, duration };
+}
+
+// SoX numbers the files it creates with newfile as <prefix>001.wav, <prefix>002.wav, ...
+function listPieces(workDir: string, prefix: string): AudioPiece[] {
+  const pattern = new RegExp(`^${prefix}\\d+\\.wav$`);
+  return fs
+    .readdirSync(workDir)
+    .filter((name) => pattern.test(name))
+    .sort()
+    .map((name) => {
+      const filePath = path.join(workDir, name);
+      return { filePath, duration: getWavDuration(filePath) };
+    })
+    .filter((piece) => piece.duration >= MIN_PIECE_SECONDS);
+}
@@ -0,0 +1,94 @@
+import * as path from "path";
+import * as os from "os";
+import { spawn } from "child_process";
+
+import { log } from "./logger";
+
+// Helper function to detect Apple Silicon
+export function isAppleSilicon(): boolean {
+  return os.platform() === "darwin" && process.arch === "arm64";
+}
+
+// Helper function to get SoX path
+export function getSoxPath(): string {
+  const platform = os.platform();
+  const extensionPath = path.dirname(__dirname);
+
+  switch (platform) {
+    case "win32":
+      return path.join(extensionPath, "resources", "bin", "win32", "sox.exe");
+    case "darwin":
+      // For Apple Silicon, use system-installed SoX
+      if (isAppleSilicon()) {
+        return "sox"; // Use PATH-based SoX
+      }
+      return path.join(extensionPath, "resources", "bin", "darwin", "sox");
+    case "linux":
+      return "/usr/bin/sox"; // Use full path to system-installed SoX
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+// A SoX run that exited with an error code, with what SoX printed about it
+export class SoxError extends Error {
+  constructor(label: string, readonly code: number | null, readonly stderr: string) {
+    super(`${label} failed with code ${code}`);
+    this.name = "SoxError";
+  }
+}
+
+// Run SoX to completion and resolve with its stdout
+export function runSox(args: string[], label: string): Promise<string> {
+  const soxPath = getSoxPath();
+  const startTime = Date.now();
+
+  return new Promise<string>((resolve, reject) => {
+    const soxProcess = spawn(soxPath, args);
+    let stdout = "";
+    let stderr = "";
+
+    soxProcess.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+
+    soxProcess.stderr.on("data", (data) => {
+      stderr += data.toString();
+      log(`${label} stderr: ${data}`);
+    });
+
+    soxProcess.on("close", (code) => {
+      const duration = Date.now() - startTime;
+
+      if (code === 0) {
+        log(`${label} completed in ${duration}ms`);
+        resolve(stdout);
+      } else {
+        log(`${label} failed with code ${code}`, true);
+        reject(new SoxError(label, code, stderr));
+      }
+    });
+
+    soxProcess.on("error", (error) => {
+      log(`${label} process error: ${error}`, true);
+      reject(error);
+    });
+  });
+}
+
+// Read the duration of an audio file in seconds from its header
+export async function getAudioDuration(filePath: string): Promise<number> {
+  const output = await runSox(["--i", "-D", filePath], "Duration query");
+  const duration = parseFloat(output.trim());
+  if (isNaN(duration)) {
+    throw new Error(`Could not read duration of ${filePath}`);
+  }
+  return duration;
+}
+
+// Decode any format SoX reads into the 16 kHz mono WAV used for recordings
+export async function convertToWav(inputPath: string, outputPath: string): Promise<string> {
+  log(`Converting ${path.basename(inputPath)} to WAV...`);
+  await runSox([inputPath, "-r", "16000", "-c", "1", "-b", "16", outputPath], "Conversion to WAV");
+  return outputPath;
+}
@@ -0,0 +1,281 @@
+import * as vscode from "vscode";
+
+// Editor operations that can be triggered by voice
+export enum SpokenAction {
+  DeleteLastWord = "deleteLastWord",
+  SelectThat = "selectThat",
+  UndoThat = "undoThat",
+  CapThat = "capThat",
+}
+
+// Text produced by a spoken punctuation or layout command
+interface SpokenSymbol {
+  text: string;
+  // Whether the symbol attaches to the previous word (e.g. "." or ")")
+  attachLeft?: boolean;
+  // Whether the next word attaches to the symbol (e.g. "(" or a line break)
+  attachRight?: boolean;
+}
+
+// Symbols and actions that can be referred to from a grammar
+const SYMBOLS: Record<string, SpokenSymbol> = {
+  newLine: { text: "\n", attachLeft: true, attachRight: true },
+  newParagraph: { text: "\n\n", attachLeft: true, attachRight: true },
+  period: { text: ".", attachLeft: true },
+  comma: { text: ",", attachLeft: true },
+  questionMark: { text: "?", attachLeft: true },
+  exclamationMark: { text: "!", attachLeft: true },
+  colon: { text: ":", attachLeft: true },
+  semicolon: { text: ";", attachLeft: true },
+  openParen: { text: "(", attachRight: true },
+  closeParen: { text: ")", attachLeft: true },
+  openBracket: { text: "[", attachRight: true },
+  closeBracket: { text: "]", attachLeft: true },
+  openQuote: { text: '"', attachRight: true },
+  closeQuote: { text: '"', attachLeft: true },
+  hyphen: { text: "-", attachLeft: true, attachRight: true },
+};
+
+// Phrases for one language mapped to symbol or action names
+export interface SpokenGrammar {
+  literal: string;
+  phrases: Record<string, string>;
+}
+
+const BUILT_IN_GRAMMARS: Record<string, SpokenGrammar> = {
+  en: {
+    literal: "literal",
+    phrases: {
+      "new line": "newLine",
+      "new paragraph": "newParagraph",
+      period: "period",
+      "full stop": "period",
+      comma: "comma",
+      "question mark": "questionMark",
+      "exclamation mark": "exclamationMark",
+      "exclamation point": "exclamationMark",
+      colon: "colon",
+      semicolon: "semicolon",
+      "open paren": "openParen",
+      "close paren": "closeParen",
+      "open bracket": "openBracket",
+      "close bracket": "closeBracket",
+      "open quote": "openQuote",
+      "close quote": "closeQuote",
+      hyphen: "hyphen",
+      "delete last word": "deleteLastWord",
+      "select that": "selectThat",
+      "undo that": "undoThat",
+      "cap that": "capThat",
+    },
+  },
+  de: {
+    literal: "wörtlich",
+    phrases: {
+      "neue zeile": "newLine",
+      "neuer absatz": "newParagraph",
+      punkt: "period",
+      komma: "comma",
+      fragezeichen: "questionMark",
+      ausrufezeichen: "exclamationMark",
+      doppelpunkt: "colon",
+      semikolon: "semicolon",
+      "klammer auf": "openParen",
+      "klammer zu": "closeParen",
+      "anführungszeichen auf": "openQuote",
+      "anführungszeichen zu": "closeQuote",
+      bindestrich: "hyphen",
+      "letztes wort löschen": "deleteLastWord",
+      "das auswählen": "selectThat",
+      "das rückgängig": "undoThat",
+      "groß damit": "capThat",
+    },
+  },
+  fr: {
+    literal: "littéral",
+    phrases: {
+      "à la ligne": "newLine",
+      "nouvelle ligne": "newLine",
+      "nouveau paragraphe": "newParagraph",
+      point: "period",
+      virgule: "comma",
+      "point d'interrogation": "questionMark",
+      "point d'exclamation": "exclamationMark",
+      "deux points": "colon",
+      "point virgule": "semicolon",
+      "ouvrir la parenthèse": "openParen",
+      "fermer la parenthèse": "closeParen",
+      "ouvrir les guillemets": "openQuote",
+      "fermer les guillemets": "closeQuote",
+      "supprimer le dernier mot": "deleteLastWord",
+      "sélectionner ça": "selectThat",
+      "annuler ça": "undoThat",
+      "majuscule ça": "capThat",
+    },
+  },
+  es: {
+    literal: "literal",
+    phrases: {
+      "nueva línea": "newLine",
+      "nuevo párrafo": "newParagraph",
+      punto: "period",
+      coma: "comma",
+      "signo de interrogación": "questionMark",
+      "signo de exclamación": "exclamationMark",
+      "dos puntos": "colon",
+      "punto y coma": "semicolon",
+      "abrir paréntesis": "openParen",
+      "cerrar paréntesis": "closeParen",
+      "abrir comillas": "openQuote",
+      "cerrar comillas": "closeQuote",
+      "borrar última palabra": "deleteLastWord",
+      "seleccionar eso": "selectThat",
+      "deshacer eso": "undoThat",
+      "mayúscula eso": "capThat",
+    },
+  },
+  pt: {
+    literal: "literal",
+    phrases: {
+      "nova linha": "newLine",
+      "novo parágrafo": "newParagraph",
+      ponto: "period",
+      vírgula: "comma",
+      "ponto de interrogação": "questionMark",
+      "ponto de exclamação": "exclamationMark",
+      "dois pontos": "colon",
+      "ponto e vírgula": "semicolon",
+      "abrir parênteses": "openParen",
+      "fechar parênteses": "closeParen",
+      "abrir aspas": "openQuote",
+      "fechar aspas": "closeQuote",
+      "apagar última palavra": "deleteLastWord",
+      "selecionar isso": "selectThat",
+      "desfazer isso": "undoThat",
+      "maiúscula isso": "capThat",
+    },
+  },
+};
+
+// Result of running a transcript through the grammar
+export interface SpokenCommandResult {
+  text: string;
+  // Editor actions to run before inserting the text (when they refer to earlier dictations)
+  actionsBefore: SpokenAction[];
+  // Editor actions to run after inserting the text
+  actionsAfter: SpokenAction[];
+}
+
+// Punctuation the transcription model adds around spoken command words
+const AUTO_PUNCTUATION = /^[.,!?;:]+|[.,!?;:]+$/g;
+
+// Grammar for a transcription language, with user overrides from the settings
+export function getSpokenGrammar(language: string): SpokenGrammar | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (!config.get<boolean>("spokenCommands.enabled")) {
+    return undefined;
+  }
+
+  const code = (language || "en").toLowerCase();
+  const overrides = config.get<Record<string, Partial<SpokenGrammar>>>("spokenCommands.grammars") ?? {};
+  const builtIn = BUILT_IN_GRAMMARS[code] ?? (overrides[code] ? undefined : BUILT_IN_GRAMMARS.en);
+  const override = overrides[code];
+
+  if (!builtIn && !override) {
+    return undefined;
+  }
+
+  return {
+    literal: (override?.literal ?? builtIn?.literal ?? "literal").toLowerCase(),
+    phrases: { ...builtIn?.phrases, ...override?.phrases },
+  };
+}
+
+function normalizeWord(word: string): string {
+  return word.replace(AUTO_PUNCTUATION, "").toLowerCase();
+}
+
+// Convert spoken punctuation, layout and editing commands in a transcript
+export function applySpokenCommands(transcript: string, grammar: SpokenGrammar): SpokenCommandResult {
+  const words = transcript.split(/\s+/).filter((word) => word.length > 0);
+  const phrases = Object.keys(grammar.phrases)
+    .map((phrase) => ({ phrase, words: phrase.toLowerCase().split(/\s+/) }))
+    .sort((a, b) => b.words.length - a.words.length);
+
+  const result: SpokenCommandResult = { text: "", actionsBefore: [], actionsAfter: [] };
+  let output = "";
+  let attachNext = true;
+
+  const appendWord = (word: string) => {
+    output += (attachNext || output.length === 0 ? "" : " ") + word;
+    attachNext = false;
+  };
+
+  let index = 0;
+  while (index < words.length) {
+    // The escape word makes the following phrase literal text
+    if (normalizeWord(words[index]) === grammar.literal && index + 1 < words.length) {
+      const match = matchPhrase(words, index + 1, phrases);
+      const length = match ? match.words.length : 1;
+      words.slice(index + 1, index + 1 + length).forEach(appendWord);
+      index += 1 + length;
+      continue;
+    }
+
+    const match = matchPhrase(words, index, phrases);
+    if (!match) {
+      appendWord(words[index]);
+      index++;
+      continue;
+    }
+
+    index += match.words.length;
+    const target = grammar.phrases[match.phrase];
+    const symbol = SYMBOLS[target];
+
+    if (symbol) {
+      if (symbol.attachLeft && !symbol.text.includes("\n")) {
+        // Drop the punctuation the model guessed in favour of the spoken one
+        output = output.replace(/[.,!?;:]+$/, "");
+      }
+      output += (symbol.attachLeft || attachNext || output.length === 0 ? "" : " ") + symbol.text;
+      attachNext = symbol.attachRight ?? false;
+      continue;
+    }
+
+    switch (target) {
+      case SpokenAction.DeleteLastWord:
+        if (output.trim().length > 0) {
+          output = output.replace(/\s*\S+\s*$/, "");
+        } else {
+          result.actionsBefore.push(SpokenAction.DeleteLastWord);
+        }
+        break;
+      case SpokenAction.UndoThat:
+        if (output.trim().length > 0) {
+          output = "";
+          attachNext = true;
+        } else {
+          result.actionsBefore.push(SpokenAction.UndoThat);
+        }
+        break;
+      case SpokenAction.CapThat:
+        output = output.replace(/(\S)(\S*)\s*$/, (_, first: string, rest: string) => first.toUpperCase() + rest);
+        break;
+      case SpokenAction.SelectThat:
+        result.actionsAfter.push(SpokenAction.SelectThat);
+        break;
+    }
+  }
+
+  result.text = output;
+  return result;
+}
+
+function matchPhrase(words: string[], start: number, phrases: { phrase: string; words: string[] }[]) {
+  return phrases.find(
+    (candidate) =>
+      start + candidate.words.length <= words.length &&
+      candidate.words.every((word, offset) => normalizeWord(words[start + offset]) === word)
+  );
+}
@@ -0,0 +1,174 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { execFile } from "child_process";
+
+import { TranscriptionBackend } from "./backends";
+import { log } from "./logger";
+import { SoxError, runSox } from "./sox";
+
+// Encodings offered by whisperdictation.uploadFormat
+export enum UploadFormat {
+  // The smallest format the backend accepts, WAV for short recordings
+  Auto = "auto",
+  Wav = "wav",
+  Flac = "flac",
+  // Ogg Vorbis
+  Ogg = "ogg",
+  // Ogg Opus, encoded with ffmpeg because SoX can only read Opus
+  Opus = "opus",
+  Mp3 = "mp3",
+}
+
+export interface UploadOptions {
+  format: UploadFormat;
+  // Target bitrate of the lossy formats
+  bitrateKbps: number;
+}
+
+// Formats that are encoded from the WAV recording
+type EncodedFormat = Exclude<UploadFormat, UploadFormat.Auto | UploadFormat.Wav>;
+
+// Smallest first for speech at the same bitrate
+const AUTO_ORDER: EncodedFormat[] = [UploadFormat.Opus, UploadFormat.Mp3, UploadFormat.Ogg, UploadFormat.Flac];
+// In auto mode, recordings below this size (about 8 seconds) go up as WAV: encoding them takes longer than it saves
+const AUTO_MIN_BYTES = 256 * 1024;
+// Connection speed used to express the saved bytes as upload time in the log
+const REFERENCE_UPLOAD_BITS_PER_SECOND = 1_000_000;
+const FFMPEG_TIMEOUT_MS = 60000;
+
+// Appended to the recording's name; Opus uses the .ogg extension the OpenAI API accepts
+const FORMAT_SUFFIXES: Record<EncodedFormat, string> = {
+  [UploadFormat.Flac]: ".flac",
+  [UploadFormat.Ogg]: ".ogg",
+  [UploadFormat.Opus]: "-opus.ogg",
+  [UploadFormat.Mp3]: ".mp3",
+};
+
+// What SoX and ffmpeg print when they were built without an encoder
+const MISSING_ENCODER_PATTERN = /no handler for|without .* support|Unknown encoder|Encoder not found/i;
+
+// Formats whose encoder is missing in this session, e.g. SoX without MP3 support or no ffmpeg, are not tried again
+const unavailableFormats = new Set<UploadFormat>();
+
+export function getUploadOptions(): UploadOptions {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  const format = config.get<string>("uploadFormat") as UploadFormat;
+  return {
+    format: Object.values(UploadFormat).includes(format) ? format : UploadFormat.Auto,
+    bitrateKbps: Math.min(320, Math.max(8, config.get<number>("uploadBitrateKbps") ?? 32)),
+  };
+}
+
+// Thrown when a recording is over the backend's limit in every format that could be tried
+export class UploadTooLargeError extends Error {
+  constructor(readonly sizeBytes: number, readonly limitBytes: number) {
+    super(`The recording is ${formatBytes(sizeBytes)}, more than the ${formatBytes(limitBytes)} the backend accepts.`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+// Vorbis has no bitrate option in SoX, so use the quality level with about the same bitrate for 16 kHz mono
+function vorbisQuality(bitrateKbps: number): number {
+  return Math.min(10, Math.max(-1, Math.round(bitrateKbps / 16) - 1));
+}
+
+function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile("ffmpeg", args, { timeout: FFMPEG_TIMEOUT_MS, windowsHide: true }, (error, _stdout, stderr) => {
+      if (error) {
+        log(`Encoding with ffmpeg failed: ${stderr || error}`, true);
+        reject(Object.assign(error, { stderr }));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+// Whether an encoding failed because the encoder is not installed, as opposed to a timeout, a full disk or bad input,
+// which may not happen again on the next recording
+function isEncoderMissing(error: unknown): boolean {
+  if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+    return true;
+  }
+  const stderr = error instanceof SoxError ? error.stderr : (error as { stderr?: unknown }).stderr;
+  return typeof stderr === "string" && MISSING_ENCODER_PATTERN.test(stderr);
+}
+
+async function encode(wavPath: string, outputPath: string, format: EncodedFormat, bitrateKbps: number): Promise<void> {
+  switch (format) {
+    case UploadFormat.Flac:
+      await runSox([wavPath, "-t", "flac", "-C", "8", outputPath], "Encoding as FLAC");
+      break;
+    case UploadFormat.Ogg:
+      await runSox([wavPath, "-t", "ogg", "-C", String(vorbisQuality(bitrateKbps)), outputPath], "Encoding as Ogg Vorbis");
+      break;
+    case UploadFormat.Mp3:
+      await runSox([wavPath, "-t", "mp3", "-C", String(bitrateKbps), outputPath], "Encoding as MP3");
+      break;
+    case UploadFormat.Opus:
+      await runFfmpeg(["-y", "-loglevel", "error", "-i", wavPath, "-c:a", "libopus", "-b:a", `${bitrateKbps}k`, "-application", "voip", outputPath]);
+      break;
+  }
+}
+
+// Formats to try in order; in auto mode only when the recording is worth encoding
+function getCandidates(format: UploadFormat, acceptsCompressedAudio: boolean, worthEncoding: boolean): EncodedFormat[] {
+  if (!acceptsCompressedAudio || format === UploadFormat.Wav) {
+    return [];
+  }
+  if (format === UploadFormat.Auto) {
+    return worthEncoding ? AUTO_ORDER.filter((candidate) => !unavailableFormats.has(candidate)) : [];
+  }
+  return [format];
+}
+
+// The file to upload for a WAV recording: the recording itself or an encoded copy next to it.
+// Formats that fail to encode or stay over the backend's size limit are skipped; the WAV is the last resort.
+export async function prepareUpload(
+  wavPath: string,
+  backend: Pick<TranscriptionBackend, "acceptsCompressedAudio" | "maxFileSizeBytes">,
+  options: UploadOptions = getUploadOptions()
+): Promise<string> {
+  const size = fs.statSync(wavPath).size;
+  const limit = backend.maxFileSizeBytes ?? Infinity;
+
+  for (const format of getCandidates(options.format, backend.acceptsCompressedAudio, size > limit || size >= AUTO_MIN_BYTES)) {
+    const startTime = Date.now();
+    const outputPath = wavPath.replace(/\.wav$/, FORMAT_SUFFIXES[format]);
+    try {
+      await encode(wavPath, outputPath, format, options.bitrateKbps);
+    } catch (error) {
+      // A partly written file, e.g. after a timeout, is not sent
+      fs.rmSync(outputPath, { force: true });
+      if (isEncoderMissing(error)) {
+        unavailableFormats.add(format);
+        log(`No encoder for ${format}, not trying it again in this session: ${error}`, true);
+      } else {
+        log(`Encoding as ${format} failed, trying the next format: ${error}`, true);
+      }
+      continue;
+    }
+
+    const encodedSize = fs.statSync(outputPath).size;
+    const savedBytes = size - encodedSize;
+    log(
+      `Encoded ${formatBytes(size)} WAV as ${format} (${formatBytes(encodedSize)}) in ${Date.now() - startTime}ms, ` +
+        `saving ${formatBytes(Math.max(0, savedBytes))}, about ${((Math.max(0, savedBytes) * 8) / REFERENCE_UPLOAD_BITS_PER_SECOND).toFixed(1)}s of upload at 1 Mbit/s`
+    );
+    if (encodedSize <= limit && savedBytes > 0) {
+      return outputPath;
+    }
+    log(`The ${format} file is not smaller or over the backend's limit, not using it`);
+    fs.unlinkSync(outputPath);
+  }
+
+  if (size > limit) {
+    throw new UploadTooLargeError(size, limit);
+  }
+  return wavPath;
+}
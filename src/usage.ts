@@ -0,0 +1,312 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+
+import { BackendId, TranscriptionBackend, TranscriptionRequest } from "./backends";
+import { log } from "./logger";
+import { getWavDuration } from "./segmentation";
+import { getAudioDuration } from "./sox";
+
+// USD per minute of audio for the OpenAI models, as listed for whisperdictation.transcriptionModel
+const DEFAULT_PRICES_PER_MINUTE: Record<string, number> = {
+  "whisper-1": 0.006,
+  "gpt-4o-transcribe": 0.0025,
+  "gpt-4o-mini-transcribe": 0.00075,
+};
+
+// Days of usage kept for the report
+const RETENTION_DAYS = 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface UsageTotals {
+  requests: number;
+  seconds: number;
+  // Estimated with the price in effect when the request was made
+  costUsd: number;
+}
+
+// Totals per day ("2025-01-31"), then per model, then per workspace
+type DailyUsage = Record<string, Record<string, Record<string, UsageTotals>>>;
+
+interface UsageFile {
+  days: DailyUsage;
+  // Budget thresholds already warned about, per month ("2025-01")
+  warnings: Record<string, number[]>;
+}
+
+export interface UsageOptions {
+  // 0 disables the budget
+  monthlyBudgetUsd: number;
+  warnAtPercent: number[];
+  blockOverBudget: boolean;
+  prices: Record<string, number>;
+}
+
+export function getUsageOptions(): UsageOptions {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return {
+    monthlyBudgetUsd: Math.max(0, config.get<number>("monthlyBudgetUsd") ?? 0),
+    warnAtPercent: (config.get<number[]>("usage.warnAtPercent") ?? [50, 80, 100]).filter((percent) => percent > 0).sort((a, b) => a - b),
+    blockOverBudget: config.get<boolean>("usage.blockOverBudget") ?? false,
+    prices: config.get<Record<string, number>>("usage.prices") ?? {},
+  };
+}
+
+// Price overrides apply to any backend; the built-in prices only to OpenAI, so self-hosted models cost nothing
+export function getPricePerMinute(backendId: BackendId, model: string, options: UsageOptions): number {
+  const override = options.prices[model];
+  if (typeof override === "number") {
+    return Math.max(0, override);
+  }
+  return backendId === BackendId.OpenAI ? DEFAULT_PRICES_PER_MINUTE[model] ?? 0 : 0;
+}
+
+// Thrown instead of sending a request once the monthly budget is used up
+export class BudgetExceededError extends Error {
+  constructor(readonly spentUsd: number, readonly budgetUsd: number) {
+    super(
+      `The monthly transcription budget of ${formatUsd(budgetUsd)} is used up (${formatUsd(spentUsd)} spent). ` +
+        "Raise whisperdictation.monthlyBudgetUsd or use a local backend."
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+function localDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("sv");
+}
+
+// Audio length of an upload; formats SoX cannot read count as 0
+async function getAudioSeconds(filePath: string): Promise<number> {
+  if (path.extname(filePath).toLowerCase() === ".wav") {
+    return getWavDuration(filePath);
+  }
+  return getAudioDuration(filePath).catch(() => 0);
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals) {
+  target.requests += source.requests;
+  target.seconds += source.seconds;
+  target.costUsd += source.costUsd;
+}
+
+// Audio minutes and estimated cost of transcription requests, stored under the extension's global storage
+export class UsageTracker {
+  private readonly filePath: string;
+  private data: UsageFile = { days: {}, warnings: {} };
+
+  constructor(storageDir: string) {
+    fs.mkdirSync(storageDir, { recursive: true });
+    this.filePath = path.join(storageDir, "usage.json");
+    this.load();
+  }
+
+  // Other windows write to the same file, so it is read again before each use
+  private load() {
+    try {
+      if (fs.existsSync(this.filePath)) {
+        this.data = { days: {}, warnings: {}, ...JSON.parse(fs.readFileSync(this.filePath, "utf8")) };
+      }
+    } catch (error) {
+      log(`Could not read usage data, keeping the data in memory: ${error}`, true);
+    }
+    this.prune();
+  }
+
+  private save() {
+    fs.writeFileSync(this.filePath, JSON.stringify(this.data, undefined, 2));
+  }
+
+  private prune() {
+    const oldest = localDate(Date.now() - RETENTION_DAYS * DAY_MS);
+    for (const day of Object.keys(this.data.days)) {
+      if (day < oldest) {
+        delete this.data.days[day];
+      }
+    }
+    for (const month of Object.keys(this.data.warnings)) {
+      if (month < oldest.slice(0, 7)) {
+        delete this.data.warnings[month];
+      }
+    }
+  }
+
+  // Totals of the days starting with a prefix, e.g. a month "2025-01" or a day "2025-01-31", grouped by model or workspace
+  private totals(prefix: string, groupBy: "model" | "workspace"): Map<string, UsageTotals> {
+    const result = new Map<string, UsageTotals>();
+    for (const [day, models] of Object.entries(this.data.days)) {
+      if (!day.startsWith(prefix)) {
+        continue;
+      }
+      for (const [model, workspaces] of Object.entries(models)) {
+        for (const [workspace, totals] of Object.entries(workspaces)) {
+          const key = groupBy === "model" ? model : workspace;
+          const entry = result.get(key) ?? { requests: 0, seconds: 0, costUsd: 0 };
+          addTotals(entry, totals);
+          result.set(key, entry);
+        }
+      }
+    }
+    return result;
+  }
+
+  monthCost(month = localDate(Date.now()).slice(0, 7)): number {
+    let cost = 0;
+    for (const totals of this.totals(month, "model").values()) {
+      cost += totals.costUsd;
+    }
+    return cost;
+  }
+
+  // Refuse paid requests once the budget is used up, when blocking is enabled
+  checkBudget(backendId: BackendId, model: string) {
+    const options = getUsageOptions();
+    if (!options.blockOverBudget || options.monthlyBudgetUsd <= 0 || getPricePerMinute(backendId, model, options) <= 0) {
+      return;
+    }
+    this.load();
+    const spent = this.monthCost();
+    if (spent >= options.monthlyBudgetUsd) {
+      throw new BudgetExceededError(spent, options.monthlyBudgetUsd);
+    }
+  }
+
+  record(backendId: BackendId, model: string, seconds: number, workspace: string) {
+    const options = getUsageOptions();
+    const costUsd = (seconds / 60) * getPricePerMinute(backendId, model, options);
+    this.load();
+    const day = localDate(Date.now());
+    const models = (this.data.days[day] ??= {});
+    const workspaces = (models[model] ??= {});
+    const totals = (workspaces[workspace] ??= { requests: 0, seconds: 0, costUsd: 0 });
+    addTotals(totals, { requests: 1, seconds, costUsd });
+    log(`Usage recorded: ${seconds.toFixed(1)}s with ${model}, estimated ${formatUsd(costUsd)}`);
+
+    this.warnAboutBudget(day.slice(0, 7), options);
+    this.save();
+  }
+
+  private warnAboutBudget(month: string, options: UsageOptions) {
+    if (options.monthlyBudgetUsd <= 0) {
+      return;
+    }
+    const spent = this.monthCost(month);
+    const percent = (spent / options.monthlyBudgetUsd) * 100;
+    const warned = (this.data.warnings[month] ??= []);
+    const reached = options.warnAtPercent.filter((threshold) => percent >= threshold && !warned.includes(threshold));
+    if (reached.length === 0) {
+      return;
+    }
+
+    warned.push(...reached);
+    const threshold = reached[reached.length - 1];
+    const blocking = options.blockOverBudget && percent >= 100 ? " Cloud transcription is blocked until next month." : "";
+    log(`Transcription spending reached ${threshold}% of the monthly budget`, true);
+    void vscode.window
+      .showWarningMessage(
+        `Transcription spending this month is ${formatUsd(spent)}, ${Math.round(percent)}% of the ${formatUsd(options.monthlyBudgetUsd)} budget.${blocking}`,
+        "Show Usage"
+      )
+      .then((action) => {
+        if (action === "Show Usage") {
+          void vscode.commands.executeCommand("whisperdictation.showUsage");
+        }
+      });
+  }
+
+  // A backend that checks the budget before and records the audio length after every successful request
+  meter(backend: TranscriptionBackend, workspace: string): TranscriptionBackend {
+    const metered = async (request: TranscriptionRequest, run: () => Promise<string>) => {
+      this.checkBudget(backend.id, backend.model);
+      const seconds = await getAudioSeconds(request.filePath);
+      const result = await run();
+      this.record(backend.id, backend.model, seconds, workspace);
+      return result;
+    };
+    const { translate, transcribeTimed } = backend;
+
+    return {
+      id: backend.id,
+      displayName: backend.displayName,
+      model: backend.model,
+      maxFileSizeBytes: backend.maxFileSizeBytes,
+      acceptsCompressedAudio: backend.acceptsCompressedAudio,
+      supportsTranslation: backend.supportsTranslation,
+      supportsTimestamps: backend.supportsTimestamps,
+      transcribe: (request) => metered(request, () => backend.transcribe(request)),
+      translate: translate && ((request) => metered(request, () => translate.call(backend, request))),
+      transcribeTimed:
+        transcribeTimed &&
+        (async (request) => {
+          this.checkBudget(backend.id, backend.model);
+          const seconds = await getAudioSeconds(request.filePath);
+          const segments = await transcribeTimed.call(backend, request);
+          this.record(backend.id, backend.model, seconds, workspace);
+          return segments;
+        }),
+    };
+  }
+
+  // Markdown report of this month, today and earlier months
+  report(): string {
+    const options = getUsageOptions();
+    this.load();
+    const today = localDate(Date.now());
+    const month = today.slice(0, 7);
+    const spent = this.monthCost(month);
+
+    const table = (title: string, totals: Map<string, UsageTotals>, sortByCost = true) => {
+      if (totals.size === 0) {
+        return [`| ${title} | Requests | Minutes | Estimated cost |`, "| --- | ---: | ---: | ---: |", "| (none) | | | |", ""];
+      }
+      const entries = [...totals.entries()];
+      if (sortByCost) {
+        entries.sort(([, a], [, b]) => b.costUsd - a.costUsd || b.seconds - a.seconds);
+      }
+      const rows = entries.map(([name, entry]) => `| ${name} | ${entry.requests} | ${(entry.seconds / 60).toFixed(1)} | ${formatUsd(entry.costUsd)} |`);
+      return [`| ${title} | Requests | Minutes | Estimated cost |`, "| --- | ---: | ---: | ---: |", ...rows, ""];
+    };
+
+    const months = new Map<string, UsageTotals>();
+    for (const day of Object.keys(this.data.days)) {
+      const key = day.slice(0, 7);
+      if (key !== month && !months.has(key)) {
+        const entry = { requests: 0, seconds: 0, costUsd: 0 };
+        for (const totals of this.totals(key, "model").values()) {
+          addTotals(entry, totals);
+        }
+        months.set(key, entry);
+      }
+    }
+
+    const budget =
+      options.monthlyBudgetUsd > 0
+        ? `Budget: ${formatUsd(spent)} of ${formatUsd(options.monthlyBudgetUsd)} (${Math.round((spent / options.monthlyBudgetUsd) * 100)}%) used this month` +
+          (options.blockOverBudget ? ", cloud transcription stops at the limit." : ".")
+        : "No monthly budget is set (whisperdictation.monthlyBudgetUsd).";
+
+    return [
+      "# Dictation usage",
+      "",
+      budget,
+      "",
+      `## This month (${month})`,
+      "",
+      ...table("Model", this.totals(month, "model")),
+      ...table("Workspace", this.totals(month, "workspace")),
+      `## Today (${today})`,
+      "",
+      ...table("Model", this.totals(today, "model")),
+      "## Earlier months",
+      "",
+      ...table("Month", new Map([...months.entries()].sort(([a], [b]) => b.localeCompare(a))), false),
+      "Costs are estimates from the audio length and the per-minute price of each model (whisperdictation.usage.prices). " +
+        "Rewrites, translations and voice edits with chat models are not included.",
+      "",
+    ].join("\n");
+  }
+}
@@ -0,0 +1,228 @@
+import * as vscode from "vscode";
+
+import { log } from "./logger";
+
+// Where a vocabulary term was found, in decreasing order of trust
+export enum VocabularySource {
+  Glossary = "glossary",
+  ActiveDocument = "active document",
+  WorkspaceSymbols = "workspace symbols",
+  OpenEditors = "open editors",
+}
+
+export interface VocabularyTerm {
+  term: string;
+  score: number;
+  source: VocabularySource;
+}
+
+const SOURCE_WEIGHTS: Record<VocabularySource, number> = {
+  [VocabularySource.Glossary]: 1000,
+  [VocabularySource.ActiveDocument]: 3,
+  [VocabularySource.WorkspaceSymbols]: 2,
+  [VocabularySource.OpenEditors]: 1,
+};
+
+// Approximate prompt size each model pays attention to, in tokens
+const PROMPT_TOKEN_BUDGETS: Record<string, number> = {
+  "whisper-1": 224,
+  "gpt-4o-transcribe": 1024,
+  "gpt-4o-mini-transcribe": 1024,
+};
+const DEFAULT_PROMPT_TOKEN_BUDGET = 224;
+// Rough characters per token for English text and identifiers
+const CHARACTERS_PER_TOKEN = 4;
+const WORKSPACE_SYMBOL_TIMEOUT_MS = 1500;
+
+// Identifiers that are worth teaching the model: multi-word names and acronyms
+const IDENTIFIER_PATTERN = /\b[A-Za-z][A-Za-z0-9_]{3,}\b/g;
+const COMMON_WORDS = new Set([
+  "this",
+  "that",
+  "with",
+  "from",
+  "return",
+  "const",
+  "function",
+  "class",
+  "import",
+  "export",
+  "async",
+  "await",
+  "string",
+  "number",
+  "boolean",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "void",
+  "public",
+  "private",
+  "static",
+  "self",
+  "None",
+  "True",
+  "False",
+  "TODO",
+]);
+
+export interface VocabularyOptions {
+  includeWorkspaceSymbols: boolean;
+  glossaryFile: string;
+  maxTerms: number;
+}
+
+export function getVocabularyOptions(): VocabularyOptions | undefined {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  if (!config.get<boolean>("vocabulary.enabled")) {
+    return undefined;
+  }
+
+  return {
+    includeWorkspaceSymbols: config.get<boolean>("vocabulary.includeWorkspaceSymbols") ?? true,
+    glossaryFile: config.get<string>("vocabulary.glossaryFile") || ".vscode/whisper-vocabulary.txt",
+    maxTerms: Math.max(1, config.get<number>("vocabulary.maxTerms") ?? 100),
+  };
+}
+
+function isInterestingIdentifier(word: string): boolean {
+  if (COMMON_WORDS.has(word)) {
+    return false;
+  }
+  // camelCase, PascalCase with several parts, snake_case, acronyms, or names containing digits
+  return /[a-z][A-Z]/.test(word) || word.includes("_") || /^[A-Z]{2,}/.test(word) || /\d/.test(word);
+}
+
+function countIdentifiers(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const match of text.match(IDENTIFIER_PATTERN) ?? []) {
+    if (isInterestingIdentifier(match)) {
+      counts.set(match, (counts.get(match) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+async function readGlossary(glossaryFile: string): Promise<string[]> {
+  const terms: string[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const uri = vscode.Uri.joinPath(folder.uri, glossaryFile);
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString("utf8");
+      for (const line of content.split(/\r?\n/)) {
+        const term = line.trim();
+        if (term && !term.startsWith("#")) {
+          terms.push(term);
+        }
+      }
+      log(`Loaded ${terms.length} glossary term(s) from ${uri.fsPath}`);
+    } catch {
+      // No glossary in this folder
+    }
+  }
+  return terms;
+}
+
+async function queryWorkspaceSymbols(): Promise<vscode.SymbolInformation[]> {
+  const query = vscode.commands.executeCommand<vscode.SymbolInformation[]>("vscode.executeWorkspaceSymbolProvider", "");
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<vscode.SymbolInformation[]>((resolve) => {
+    timer = setTimeout(() => resolve([]), WORKSPACE_SYMBOL_TIMEOUT_MS);
+  });
+  try {
+    return (await Promise.race([query, timeout])) ?? [];
+  } catch (error) {
+    log(`Workspace symbol query failed: ${error}`, true);
+    return [];
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Documents of all open text tabs, including tabs in the background that were not loaded yet
+async function getOpenDocuments(): Promise<vscode.TextDocument[]> {
+  const uris = new Map<string, vscode.Uri>();
+  for (const tab of vscode.window.tabGroups.all.flatMap((group) => group.tabs)) {
+    if (tab.input instanceof vscode.TabInputText) {
+      uris.set(tab.input.uri.toString(), tab.input.uri);
+    }
+  }
+
+  const documents: vscode.TextDocument[] = [];
+  for (const [key, uri] of uris) {
+    const loaded = vscode.workspace.textDocuments.find((document) => document.uri.toString() === key);
+    try {
+      documents.push(loaded ?? (await vscode.workspace.openTextDocument(uri)));
+    } catch (error) {
+      log(`Could not read ${uri.fsPath} for the vocabulary: ${error}`);
+    }
+  }
+  return documents;
+}
+
+// Collect and rank terms from the glossary, the editors and the workspace symbols
+export async function collectVocabulary(options: VocabularyOptions): Promise<VocabularyTerm[]> {
+  const terms = new Map<string, VocabularyTerm>();
+  const add = (term: string, count: number, source: VocabularySource) => {
+    const existing = terms.get(term);
+    const score = count * SOURCE_WEIGHTS[source];
+    if (existing) {
+      existing.score += score;
+      if (SOURCE_WEIGHTS[source] > SOURCE_WEIGHTS[existing.source]) {
+        existing.source = source;
+      }
+    } else {
+      terms.set(term, { term, score, source });
+    }
+  };
+
+  for (const term of await readGlossary(options.glossaryFile)) {
+    add(term, 1, VocabularySource.Glossary);
+  }
+
+  const activeDocument = vscode.window.activeTextEditor?.document;
+  if (activeDocument) {
+    for (const [term, count] of countIdentifiers(activeDocument.getText())) {
+      add(term, count, VocabularySource.ActiveDocument);
+    }
+  }
+
+  for (const document of await getOpenDocuments()) {
+    if (document !== activeDocument) {
+      for (const [term, count] of countIdentifiers(document.getText())) {
+        add(term, count, VocabularySource.OpenEditors);
+      }
+    }
+  }
+
+  if (options.includeWorkspaceSymbols) {
+    for (const symbol of await queryWorkspaceSymbols()) {
+      if (isInterestingIdentifier(symbol.name)) {
+        add(symbol.name, 1, VocabularySource.WorkspaceSymbols);
+      }
+    }
+  }
+
+  return [...terms.values()].sort((a, b) => b.score - a.score || a.term.localeCompare(b.term)).slice(0, options.maxTerms);
+}
+
+// Append as many vocabulary terms to the prompt as fit into the model's prompt budget
+export function appendVocabulary(basePrompt: string | undefined, terms: VocabularyTerm[], model: string): string | undefined {
+  const budget = (PROMPT_TOKEN_BUDGETS[model] ?? DEFAULT_PROMPT_TOKEN_BUDGET) * CHARACTERS_PER_TOKEN;
+  const prefix = basePrompt ? `${basePrompt} Vocabulary: ` : "Vocabulary: ";
+
+  let vocabulary = "";
+  for (const { term } of terms) {
+    const next = vocabulary ? `${vocabulary}, ${term}` : term;
+    if (prefix.length + next.length + 1 > budget) {
+      break;
+    }
+    vocabulary = next;
+  }
+
+  if (!vocabulary) {
+    return basePrompt;
+  }
+  return `${prefix}${vocabulary}.`;
+}
@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+import OpenAI from "openai";
+
+import { log } from "./logger";
+import { completeChat } from "./rewrite";
+
+const PREVIEW_SCHEME = "whisperdictation-preview";
+const DEFAULT_EDIT_MODEL = "gpt-4o";
+
+const SYSTEM_PROMPT =
+  "You edit code or text selected in an editor. Apply the spoken instruction to the selected text. " +
+  "Reply with the replacement for the selection only: no explanations and no Markdown code fences. " +
+  "Keep the indentation and line ending style of the original.";
+
+// The selections to edit by voice and the document version they belong to
+export interface VoiceEditTarget {
+  document: vscode.TextDocument;
+  selections: readonly vscode.Selection[];
+  version: number;
+}
+
+// Replacement proposed by the chat model for one selection
+export interface ProposedEdit {
+  range: vscode.Range;
+  original: string;
+  replacement: string;
+}
+
+// Proposed document contents shown on the right side of the diff preview
+const previewContents = new Map<string, string>();
+let previewCounter = 0;
+
+export function registerVoiceEditPreview(): vscode.Disposable {
+  return vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+    provideTextDocumentContent: (uri) => previewContents.get(uri.toString()) ?? "",
+  });
+}
+
+export function getVoiceEditModel(): string {
+  const config = vscode.workspace.getConfiguration("whisperdictation");
+  return config.get<string>("editSelection.model") || DEFAULT_EDIT_MODEL;
+}
+
+// Models sometimes wrap code in a fence despite the instruction
+function stripCodeFence(text: string): string {
+  const match = /^```[\w+-]*\r?\n([\s\S]*?)\r?\n```$/.exec(text.trim());
+  return match ? match[1] : text;
+}
+
+// Ask the chat model to rewrite each non-empty selection according to the instruction
+export async function proposeSelectionEdits(
+  client: OpenAI,
+  instruction: string,
+  document: vscode.TextDocument,
+  selections: readonly vscode.Selection[],
+  signal?: AbortSignal
+): Promise<ProposedEdit[]> {
+  const model = getVoiceEditModel();
+  const ranges = selections.filter((selection) => !selection.isEmpty);
+  log(`Editing ${ranges.length} selection(s) with ${model}: ${instruction}`);
+
+  return Promise.all(
+    ranges.map(async (range) => {
+      const original = document.getText(range);
+      const reply = await completeChat(
+        client,
+        model,
+        SYSTEM_PROMPT,
+        `Instruction: ${instruction}\nLanguage: ${document.languageId}\n\nSelected text:\n${original}`,
+        signal
+      );
+      return { range, original, replacement: stripCodeFence(reply) };
+    })
+  );
+}
+
+// Apply the edits to the document text without touching the document
+function buildPreviewText(document: vscode.TextDocument, edits: ProposedEdit[]): string {
+  let text = document.getText();
+  const sorted = [...edits].sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start));
+  for (const edit of sorted) {
+    text = text.slice(0, document.offsetAt(edit.range.start)) + edit.replacement + text.slice(document.offsetAt(edit.range.end));
+  }
+  return text;
+}
+
+async function closePreview(previewUri: vscode.Uri) {
+  const tabs = vscode.window.tabGroups.all.flatMap((group) => group.tabs);
+  const previewTabs = tabs.filter(
+    (tab) => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.toString() === previewUri.toString()
+  );
+  await vscode.window.tabGroups.close(previewTabs);
+}
+
+// Show the proposed edits as a diff and replace the selections if the user accepts.
+// The version is that of the document when the selections were taken; the edits are dropped once it changes.
+export async function previewAndApplyEdits(document: vscode.TextDocument, edits: ProposedEdit[], version: number): Promise<boolean> {
+  const changed = edits.filter((edit) => edit.replacement !== edit.original);
+  if (changed.length === 0) {
+    vscode.window.showInformationMessage("The voice edit did not change the selection.");
+    return false;
+  }
+  if (document.version !== version) {
+    vscode.window.showErrorMessage("The document changed while the voice edit was prepared. Please try again.");
+    return false;
+  }
+
+  const previewUri = vscode.Uri.from({
+    scheme: PREVIEW_SCHEME,
+    path: document.uri.path,
+    query: String(++previewCounter),
+  });
+  previewContents.set(previewUri.toString(), buildPreviewText(document, changed));
+
+  try {
+    const title = `${vscode.workspace.asRelativePath(document.uri)} ↔ Voice Edit`;
+    await vscode.commands.executeCommand("vscode.diff", document.uri, previewUri, title, { preview: true });
+
+    const choice = await vscode.window.showInformationMessage(
+      `Apply the voice edit to ${changed.length} selection(s)?`,
+      "Accept",
+      "Reject"
+    );
+    if (choice !== "Accept") {
+      log("Voice edit rejected");
+      return false;
+    }
+
+    if (document.version !== version) {
+      vscode.window.showErrorMessage("The document changed while the voice edit was previewed. Please try again.");
+      return false;
+    }
+
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    for (const edit of changed) {
+      workspaceEdit.replace(document.uri, edit.range, edit.replacement);
+    }
+    const applied = await vscode.workspace.applyEdit(workspaceEdit);
+    log(applied ? `Voice edit applied to ${changed.length} selection(s)` : "Voice edit could not be applied");
+    return applied;
+  } finally {
+    await closePreview(previewUri);
+    previewContents.delete(previewUri.toString());
+  }
+}